@@ -76,3 +76,14 @@ export class Setting {
 export class Notice {
 	constructor() {}
 }
+
+export class Modal {
+	app: App;
+
+	constructor(app: App) {
+		this.app = app;
+	}
+
+	open(): void {}
+	close(): void {}
+}
@@ -1,5 +1,36 @@
 import { describe, it, expect } from 'vitest';
-import { calculateBackoff, BACKOFF_CONFIG } from '../api';
+import {
+	calculateBackoff,
+	BACKOFF_CONFIG,
+	shouldFetchDetails,
+	IncidentDetailCache,
+	buildPageUrl,
+	collectPages,
+	Page,
+	PAGINATION_CONFIG,
+	matchUsers,
+	resolveLegacyUser,
+	matchesRoleFilter,
+	matchesCustomFieldFilters,
+	getInclusionReasons,
+	getCatalogEntryLiterals,
+	summarizeTeamOnCall,
+	summarizeShifts,
+	splitShifts,
+	matchesIncludeExclude,
+	matchesIncidentFilters,
+	getActiveStatusCategories,
+	getStatusCategoryCondition,
+	resolveConditionIds,
+	buildIncidentListQuery,
+	buildIncidentUpdateBody,
+	buildCreateIncidentBody,
+	IncidentIOAPI,
+} from '../api';
+import { DailyNoteManager, buildOnCallFrontmatter } from '../daily-note';
+import { HttpRequest, HttpResponse, HttpTransport } from '../transport';
+import { App } from 'obsidian';
+import { CustomField, DEFAULT_SETTINGS, Incident, IncidentDetails, IncidentFilters, IncidentIOUser, IncidentRoleType } from '../types';
 
 describe('calculateBackoff', () => {
 	// Use a no-op jitter function for predictable testing
@@ -82,3 +113,522 @@ describe('calculateBackoff', () => {
 		expect(BACKOFF_CONFIG.MAX_BACKOFF_MS).toBe(30000);
 	});
 });
+
+describe('shouldFetchDetails', () => {
+	const details: IncidentDetails = { updates: [], followUps: [], actions: [], attachments: [], timestamps: [] };
+	const incident = (updated_at?: string) => ({ id: '01ABC', updated_at }) as Incident;
+	const cache = (): IncidentDetailCache => ({
+		updatedAt: { '01ABC': '2024-01-15T10:00:00Z' },
+		details: new Map([['01ABC', details]]),
+	});
+
+	it('reuses details for unchanged incidents', () => {
+		expect(shouldFetchDetails(incident('2024-01-15T10:00:00Z'), cache())).toBe(false);
+	});
+
+	it('fetches changed incidents', () => {
+		expect(shouldFetchDetails(incident('2024-01-15T11:00:00Z'), cache())).toBe(true);
+	});
+
+	it('fetches new incidents and incidents without cached details', () => {
+		expect(shouldFetchDetails({ id: '02DEF', updated_at: '2024-01-15T10:00:00Z' } as Incident, cache())).toBe(true);
+		expect(shouldFetchDetails(incident('2024-01-15T10:00:00Z'), { ...cache(), details: new Map() })).toBe(true);
+	});
+
+	it('always fetches incidents without updated_at', () => {
+		expect(shouldFetchDetails(incident(undefined), cache())).toBe(true);
+	});
+});
+
+describe('buildPageUrl', () => {
+	it('adds page_size and the cursor to the query string', () => {
+		expect(buildPageUrl('/users', undefined, 250)).toBe('/users?page_size=250');
+		expect(buildPageUrl('/users', 'abc', 250)).toBe('/users?page_size=250&after=abc');
+		expect(buildPageUrl('/actions?incident_id=01H', 'a/b')).toBe('/actions?incident_id=01H&after=a%2Fb');
+	});
+
+	it('leaves the endpoint alone when there is nothing to add', () => {
+		expect(buildPageUrl('/follow_ups?incident_id=01H')).toBe('/follow_ups?incident_id=01H');
+	});
+});
+
+describe('collectPages', () => {
+	function pages(...all: Array<Page<number>>) {
+		const requested: Array<string | undefined> = [];
+		const fetchPage = (cursor?: string) => {
+			requested.push(cursor);
+			return Promise.resolve(all[requested.length - 1]);
+		};
+		return { fetchPage, requested };
+	}
+
+	it('follows cursors until there are none left', async () => {
+		const { fetchPage, requested } = pages(
+			{ items: [1, 2], after: 'p2' },
+			{ items: [3], after: 'p3' },
+			{ items: [4] }
+		);
+		const result = await collectPages(fetchPage);
+		expect(result).toEqual({ items: [1, 2, 3, 4], truncated: false });
+		expect(requested).toEqual([undefined, 'p2', 'p3']);
+	});
+
+	it('keeps going after a short page if there is a cursor', async () => {
+		const { fetchPage } = pages({ items: [1], after: 'p2' }, { items: [2, 3] });
+		expect((await collectPages(fetchPage)).items).toEqual([1, 2, 3]);
+	});
+
+	it('stops when a cursor repeats', async () => {
+		const { fetchPage, requested } = pages(
+			{ items: [1], after: 'p2' },
+			{ items: [2], after: 'p2' },
+			{ items: [3] }
+		);
+		expect(await collectPages(fetchPage)).toEqual({ items: [1, 2], truncated: false });
+		expect(requested).toHaveLength(2);
+	});
+
+	it('stops at the page cap and reports truncation', async () => {
+		let page = 0;
+		const fetchPage = () => Promise.resolve({ items: [page], after: `p${++page}` });
+		const result = await collectPages(fetchPage, 3);
+		expect(result).toEqual({ items: [0, 1, 2], truncated: true });
+		expect(PAGINATION_CONFIG.MAX_PAGES).toBeGreaterThan(1);
+	});
+});
+
+describe('matchUsers', () => {
+	const users: IncidentIOUser[] = [
+		{ id: '1', name: 'James Smith', email: 'jsmith@example.com' },
+		{ id: '2', name: 'James', email: 'james@example.com' },
+		{ id: '3', name: 'Alice', email: 'alice@example.com' },
+	];
+
+	it('matches names and emails ignoring case, exact matches first', () => {
+		expect(matchUsers(users, 'JAMES').map(u => u.id)).toEqual(['2', '1']);
+		expect(matchUsers(users, 'alice@').map(u => u.id)).toEqual(['3']);
+	});
+
+	it('matches nobody for an empty query', () => {
+		expect(matchUsers(users, '  ')).toEqual([]);
+	});
+});
+
+describe('resolveLegacyUser', () => {
+	const james: IncidentIOUser = { id: '1', name: 'James', email: 'james@example.com' };
+	const jamesSmith: IncidentIOUser = { id: '2', name: 'James Smith', email: 'jsmith@example.com' };
+	const jamesJones: IncidentIOUser = { id: '3', name: 'James Jones', email: 'jjones@example.com' };
+
+	it('uses the only match', () => {
+		expect(resolveLegacyUser([jamesSmith], 'smith')).toBe(jamesSmith);
+	});
+
+	it('uses the only exact match among several', () => {
+		expect(resolveLegacyUser([james, jamesSmith], 'James@Example.com')).toBe(james);
+		expect(resolveLegacyUser([james, jamesSmith], 'james')).toBe(james);
+	});
+
+	it('refuses to guess when the identifier is ambiguous', () => {
+		expect(resolveLegacyUser([jamesSmith, jamesJones], 'james')).toBeNull();
+		expect(resolveLegacyUser([], 'james')).toBeNull();
+	});
+});
+
+describe('matchesRoleFilter', () => {
+	const incident = (...roles: Array<[string, IncidentRoleType, string]>) => ({
+		id: '01ABC',
+		incident_role_assignments: roles.map(([assigneeId, role_type, name]) => ({
+			assignee: { id: assigneeId, name: 'Someone', email: 'someone@example.com' },
+			role: { id: `role-${name}`, name, role_type },
+		})),
+	}) as unknown as Incident;
+
+	it('only counts roles held by the user', () => {
+		const inc = incident(['other', 'lead', 'Incident Lead'], ['me', 'reporter', 'Reporter']);
+		expect(matchesRoleFilter(inc, 'me', { roleTypes: ['lead'], customRoleNames: [] })).toBe(false);
+		expect(matchesRoleFilter(inc, 'me', { roleTypes: ['reporter'], customRoleNames: [] })).toBe(true);
+	});
+
+	it('matches named custom roles ignoring case', () => {
+		const inc = incident(['me', 'custom', 'Communications Lead']);
+		expect(matchesRoleFilter(inc, 'me', { roleTypes: ['lead'], customRoleNames: ['communications lead'] })).toBe(true);
+		expect(matchesRoleFilter(inc, 'me', { roleTypes: ['lead'], customRoleNames: ['Scribe'] })).toBe(false);
+		expect(matchesRoleFilter(inc, 'me', { roleTypes: ['custom'], customRoleNames: [] })).toBe(true);
+	});
+
+	it('defaults to the lead role only', () => {
+		expect(matchesRoleFilter(incident(['me', 'lead', 'Incident Lead']), 'me')).toBe(true);
+		expect(matchesRoleFilter(incident(['me', 'custom', 'Scribe']), 'me')).toBe(false);
+	});
+});
+
+describe('matchesCustomFieldFilters', () => {
+	const incident = {
+		id: '01ABC',
+		custom_field_entries: [
+			{ custom_field: { id: 'f1', name: 'Affected team', field_type: 'multi_select' }, value_multi_select: [{ value: 'Payments' }, { value: 'Search' }] },
+			{ custom_field: { id: 'f2', name: 'Region', field_type: 'text' }, value_text: 'EU' },
+		],
+	} as unknown as Incident;
+
+	it('matches any selected option, ignoring case', () => {
+		expect(matchesCustomFieldFilters(incident, [{ fieldName: 'affected team', value: 'payments' }])).toBe(true);
+		expect(matchesCustomFieldFilters(incident, [{ fieldName: 'Region', value: 'eu' }])).toBe(true);
+	});
+
+	it('needs the value on the named field', () => {
+		expect(matchesCustomFieldFilters(incident, [{ fieldName: 'Region', value: 'Payments' }])).toBe(false);
+		expect(matchesCustomFieldFilters(incident, [{ fieldName: 'Affected team', value: 'Pay' }])).toBe(false);
+	});
+
+	it('ignores incomplete filters', () => {
+		expect(matchesCustomFieldFilters(incident, [{ fieldName: 'Region', value: ' ' }])).toBe(false);
+		expect(matchesCustomFieldFilters(incident, [])).toBe(false);
+	});
+});
+
+describe('matchesIncludeExclude', () => {
+	it('allows anything with empty lists', () => {
+		expect(matchesIncludeExclude('Minor', { include: [], exclude: [] })).toBe(true);
+	});
+
+	it('needs an included value and no excluded one, ignoring case', () => {
+		expect(matchesIncludeExclude('Critical', { include: ['critical', 'major'], exclude: [] })).toBe(true);
+		expect(matchesIncludeExclude('Minor', { include: ['critical', 'major'], exclude: [] })).toBe(false);
+		expect(matchesIncludeExclude('Test', { include: [], exclude: [' test '] })).toBe(false);
+	});
+
+	it('ignores blank entries', () => {
+		expect(matchesIncludeExclude('', { include: [' '], exclude: [''] })).toBe(true);
+	});
+});
+
+describe('matchesIncidentFilters', () => {
+	const incident = {
+		id: '01ABC',
+		incident_status: { id: 's', name: 'Paused', category: 'paused' },
+		severity: { id: 'sev1', name: 'Critical' },
+		incident_type: { id: 't1', name: 'Test' },
+		custom_field_entries: [
+			{ custom_field: { id: 'f1', name: 'Team', field_type: 'single_select' }, value_single_select: { value: 'Payments' } },
+		],
+	} as unknown as Incident;
+	const filters = (overrides: Partial<IncidentFilters>): IncidentFilters => ({
+		...DEFAULT_SETTINGS.incidentFilters,
+		...overrides,
+	});
+
+	it('passes everything by default', () => {
+		expect(matchesIncidentFilters(incident, DEFAULT_SETTINGS.incidentFilters)).toBe(true);
+	});
+
+	it('filters on severity, type and status category', () => {
+		expect(matchesIncidentFilters(incident, filters({ severities: { include: ['Minor'], exclude: [] } }))).toBe(false);
+		expect(matchesIncidentFilters(incident, filters({ incidentTypes: { include: [], exclude: ['test'] } }))).toBe(false);
+		expect(matchesIncidentFilters(incident, filters({ statusCategories: { include: ['live', 'paused'], exclude: [] } }))).toBe(true);
+		expect(matchesIncidentFilters(incident, filters({ statusCategories: { include: [], exclude: ['paused'] } }))).toBe(false);
+	});
+
+	it('filters on custom field values', () => {
+		const team = (value: string) => [{ fieldName: 'team', value }];
+		expect(matchesIncidentFilters(incident, filters({ customFields: { include: team('payments'), exclude: [] } }))).toBe(true);
+		expect(matchesIncidentFilters(incident, filters({ customFields: { include: team('search'), exclude: [] } }))).toBe(false);
+		expect(matchesIncidentFilters(incident, filters({ customFields: { include: [], exclude: team('payments') } }))).toBe(false);
+	});
+});
+
+describe('getActiveStatusCategories', () => {
+	it('defaults to triage and live', () => {
+		expect(getActiveStatusCategories()).toEqual(['triage', 'live']);
+		expect(getActiveStatusCategories(DEFAULT_SETTINGS.incidentFilters)).toEqual(['triage', 'live']);
+	});
+
+	it('uses the included categories, less the excluded ones', () => {
+		const filters = {
+			...DEFAULT_SETTINGS.incidentFilters,
+			statusCategories: { include: ['triage', 'live', 'paused'], exclude: ['triage'] },
+		} as IncidentFilters;
+		expect(getActiveStatusCategories(filters)).toEqual(['live', 'paused']);
+	});
+});
+
+describe('getStatusCategoryCondition', () => {
+	const withCategories = (include: string[], exclude: string[]) => ({
+		...DEFAULT_SETTINGS.incidentFilters,
+		statusCategories: { include, exclude },
+	}) as IncidentFilters;
+
+	it('asks for active categories in active-only mode', () => {
+		expect(getStatusCategoryCondition(undefined, true)).toEqual({ oneOf: ['triage', 'live'] });
+	});
+
+	it('only restricts historical syncs when asked to', () => {
+		expect(getStatusCategoryCondition(undefined, false)).toEqual({ notIn: [] });
+		expect(getStatusCategoryCondition(withCategories([], ['declined']), false)).toEqual({ notIn: ['declined'] });
+		expect(getStatusCategoryCondition(withCategories(['live', 'closed'], ['closed']), false)).toEqual({ oneOf: ['live'] });
+	});
+});
+
+describe('resolveConditionIds', () => {
+	const severities = [{ id: 'sev1', name: 'Critical' }, { id: 'sev2', name: 'Major' }, { id: 'sev3', name: 'Minor' }];
+
+	it('looks up names as IDs, ignoring case', () => {
+		expect(resolveConditionIds({ include: ['critical', 'MAJOR'], exclude: ['Minor'] }, severities))
+			.toEqual({ oneOf: ['sev1', 'sev2'], notIn: ['sev3'] });
+	});
+
+	it('drops unknown names', () => {
+		expect(resolveConditionIds({ include: ['Unknown'], exclude: [] }, severities)).toEqual({ oneOf: [], notIn: [] });
+	});
+});
+
+describe('buildIncidentListQuery', () => {
+	it('is empty without filters', () => {
+		expect(buildIncidentListQuery({})).toBe('');
+	});
+
+	it('adds one_of and not_in conditions', () => {
+		const query = new URLSearchParams(buildIncidentListQuery({
+			createdAfter: '2024-01-01',
+			statusCategory: { oneOf: ['triage', 'live', 'paused'] },
+			severity: { oneOf: [], notIn: ['sev3'] },
+			incidentType: { oneOf: ['t1'] },
+		}));
+		expect(query.get('created_at[gte]')).toBe('2024-01-01');
+		expect(query.get('status_category[one_of]')).toBe('triage,live,paused');
+		expect(query.has('severity[one_of]')).toBe(false);
+		expect(query.get('severity[not_in]')).toBe('sev3');
+		expect(query.get('incident_type[one_of]')).toBe('t1');
+	});
+});
+
+describe('buildIncidentUpdateBody', () => {
+	it('sends the trimmed message', () => {
+		expect(buildIncidentUpdateBody('01ABC', { message: ' Rolled back \n' }))
+			.toEqual({ incident_id: '01ABC', message: 'Rolled back' });
+	});
+
+	it('includes only the changes chosen', () => {
+		expect(buildIncidentUpdateBody('01ABC', { message: '', statusId: 'st1', severityId: 'sev2' }))
+			.toEqual({ incident_id: '01ABC', new_incident_status_id: 'st1', new_severity_id: 'sev2' });
+	});
+});
+
+describe('buildCreateIncidentBody', () => {
+	const fields: CustomField[] = [
+		{ id: 'cf-team', name: 'Team', field_type: 'single_select', required: 'always' },
+		{ id: 'cf-ticket', name: 'Ticket', field_type: 'link', required: 'always' },
+		{ id: 'cf-notes', name: 'Notes', field_type: 'text', required: 'always' },
+	];
+
+	it('sends the name, severity and summary with the idempotency key', () => {
+		const body = buildCreateIncidentBody(
+			{ name: ' Checkout down ', summary: '', severityId: 'sev1', customFieldValues: {} },
+			[],
+			'key-1'
+		);
+		expect(body).toEqual({ idempotency_key: 'key-1', name: 'Checkout down', severity_id: 'sev1', visibility: 'public' });
+	});
+
+	it('sends custom field values in the shape each field type takes', () => {
+		const body = buildCreateIncidentBody({
+			name: 'Checkout down',
+			summary: 'Errors from the payments API',
+			severityId: 'sev1',
+			incidentTypeId: 'type1',
+			customFieldValues: { 'cf-team': 'opt-payments', 'cf-ticket': 'https://example.com/T-1', 'cf-notes': ' ' },
+		}, fields, 'key-1');
+
+		expect(body.summary).toBe('Errors from the payments API');
+		expect(body.incident_type_id).toBe('type1');
+		expect(body.custom_field_entries).toEqual([
+			{ custom_field_id: 'cf-team', values: [{ value_option_id: 'opt-payments' }] },
+			{ custom_field_id: 'cf-ticket', values: [{ value_link: 'https://example.com/T-1' }] },
+		]);
+	});
+});
+
+describe('getInclusionReasons', () => {
+	const incident = (roleType?: IncidentRoleType) => ({
+		id: '01ABC',
+		incident_role_assignments: roleType
+			? [{ assignee: { id: 'me', name: 'Me', email: 'me@example.com' }, role: { id: 'r', name: 'Role', role_type: roleType } }]
+			: [],
+		custom_field_entries: [
+			{ custom_field: { id: 'f1', name: 'Team', field_type: 'single_select' }, value_single_select: { value: 'Payments' } },
+		],
+	}) as unknown as Incident;
+	const allRoles = { roleTypes: ['lead', 'reporter', 'custom'] as IncidentRoleType[], customRoleNames: [] };
+
+	it('tells leading apart from other roles', () => {
+		expect(getInclusionReasons(incident('lead'), 'me', { roleFilter: allRoles })).toEqual(['lead']);
+		expect(getInclusionReasons(incident('reporter'), 'me', { roleFilter: allRoles })).toEqual(['role']);
+	});
+
+	it('records subscriptions and custom field matches', () => {
+		const reasons = getInclusionReasons(incident('reporter'), 'me', {
+			subscribedIncidentIds: new Set(['01ABC']),
+			customFieldFilters: [{ fieldName: 'Team', value: 'Payments' }],
+		});
+		// The default role filter is lead only, so the reporter role doesn't count
+		expect(reasons).toEqual(['subscribed', 'custom_field']);
+	});
+
+	it('counts roles held by team members', () => {
+		expect(getInclusionReasons(incident('lead'), 'someone-else', { teamMemberIds: ['me'] })).toEqual(['lead']);
+		expect(getInclusionReasons(incident('lead'), 'someone-else', { teamMemberIds: ['other'] })).toEqual([]);
+	});
+
+	it('returns nothing for unrelated incidents', () => {
+		expect(getInclusionReasons(incident(), 'me', { roleFilter: allRoles, subscribedIncidentIds: new Set(['other']) })).toEqual([]);
+	});
+});
+
+describe('getCatalogEntryLiterals', () => {
+	it('collects single and array attribute values', () => {
+		expect(getCatalogEntryLiterals({
+			id: 'entry',
+			name: 'Payments',
+			attribute_values: {
+				members: { array_value: [{ literal: 'U1' }, { literal: 'U2' }, {}] },
+				owner: { value: { literal: 'lead@example.com' } },
+				empty: {},
+			},
+		})).toEqual(['U1', 'U2', 'lead@example.com']);
+	});
+
+	it('handles entries without attributes', () => {
+		expect(getCatalogEntryLiterals({ id: 'entry', name: 'Empty' })).toEqual([]);
+	});
+});
+
+describe('summarizeShifts', () => {
+	const entry = (name: string, start: string, end: string) => ({
+		user: { id: name, name, email: `${name.toLowerCase()}@example.com` },
+		start_at: start,
+		end_at: end,
+	});
+
+	it('joins back-to-back entries and finds who hands over', () => {
+		const entries = [
+			entry('Alice', '2024-01-08T09:00:00Z', '2024-01-15T09:00:00Z'),
+			entry('Me', '2024-01-15T09:00:00Z', '2024-01-18T09:00:00Z'),
+			entry('Me', '2024-01-18T09:00:00Z', '2024-01-22T09:00:00.000Z'),
+			entry('Bob', '2024-01-22T09:00:00Z', '2024-01-29T09:00:00Z'),
+		];
+		expect(summarizeShifts('Primary', entries, 'ME@example.com')).toEqual([{
+			schedule: 'Primary',
+			start: '2024-01-15T09:00:00Z',
+			end: '2024-01-22T09:00:00.000Z',
+			handoverFrom: 'Alice',
+			handoverTo: 'Bob',
+		}]);
+	});
+
+	it('keeps separate shifts apart and ignores people on call alongside', () => {
+		const entries = [
+			entry('Me', '2024-01-15T09:00:00Z', '2024-01-16T09:00:00Z'),
+			entry('Carol', '2024-01-15T00:00:00Z', '2024-01-20T00:00:00Z'),
+			entry('Me', '2024-01-17T09:00:00Z', '2024-01-18T09:00:00Z'),
+		];
+		expect(summarizeShifts('Primary', entries, 'me@example.com')).toEqual([
+			{ schedule: 'Primary', start: '2024-01-15T09:00:00Z', end: '2024-01-16T09:00:00Z' },
+			{ schedule: 'Primary', start: '2024-01-17T09:00:00Z', end: '2024-01-18T09:00:00Z' },
+		]);
+	});
+});
+
+describe('splitShifts', () => {
+	const shift = (schedule: string, start: string, end: string) => ({ schedule, start, end });
+	const now = new Date('2024-01-16T12:00:00Z');
+
+	it('splits current shifts from the next few, soonest first', () => {
+		const shifts = [
+			shift('Primary', '2024-01-15T09:00:00Z', '2024-01-22T09:00:00Z'),
+			shift('Secondary', '2024-02-01T09:00:00Z', '2024-02-02T09:00:00Z'),
+			shift('Database', '2024-01-20T09:00:00Z', '2024-01-21T09:00:00Z'),
+			shift('Primary', '2024-02-12T09:00:00Z', '2024-02-19T09:00:00Z'),
+			shift('Old', '2024-01-01T09:00:00Z', '2024-01-02T09:00:00Z'),
+		];
+		const { current, upcoming } = splitShifts(shifts, now, 2);
+		expect(current.map(s => s.schedule)).toEqual(['Primary']);
+		expect(upcoming.map(s => s.schedule)).toEqual(['Database', 'Secondary']);
+	});
+
+	it('lists no upcoming shifts when the count is zero', () => {
+		expect(splitShifts([shift('Primary', '2024-02-01T09:00:00Z', '2024-02-02T09:00:00Z')], now, 0).upcoming).toEqual([]);
+	});
+});
+
+describe('summarizeTeamOnCall', () => {
+	const entry = (id: string, name: string, email: string) => ({
+		user: { id, name, email },
+		start_at: '2024-01-15T09:00:00Z',
+		end_at: '2024-01-15T17:00:00Z',
+	});
+	const team: IncidentIOUser[] = [
+		{ id: 'U1', name: 'Alice', email: 'alice@example.com' },
+		{ id: 'U2', name: 'Bob', email: 'bob@example.com' },
+	];
+
+	it('lists team members on call for each schedule', () => {
+		expect(summarizeTeamOnCall([
+			{ schedule: 'Primary', entries: [entry('U1', 'Alice', 'alice@example.com'), entry('U9', 'Zed', 'zed@example.com')] },
+			{ schedule: 'Secondary', entries: [entry('U8', 'Robert', 'BOB@example.com')] },
+			{ schedule: 'Database', entries: [entry('U9', 'Zed', 'zed@example.com')] },
+		], team)).toEqual([
+			{ schedule: 'Primary', members: ['Alice'] },
+			{ schedule: 'Secondary', members: ['Robert'] },
+		]);
+	});
+
+	it('lists each member once per schedule', () => {
+		expect(summarizeTeamOnCall([
+			{ schedule: 'Primary', entries: [entry('U1', 'Alice', 'alice@example.com'), entry('U1', 'Alice', 'alice@example.com')] },
+		], team)).toEqual([{ schedule: 'Primary', members: ['Alice'] }]);
+	});
+});
+
+describe('syncData', () => {
+	const DAY_MS = 24 * 60 * 60 * 1000;
+
+	// Answers each endpoint from canned bodies; everything else is an empty list
+	class FakeTransport implements HttpTransport {
+		constructor(private bodies: Record<string, unknown>) {}
+
+		request(request: HttpRequest): Promise<HttpResponse> {
+			const path = request.url.replace(/^https:\/\/api\.incident\.io\/v\d/, '').split('?')[0];
+			const body = this.bodies[path] ?? {};
+			return Promise.resolve({ status: 200, headers: {}, json: () => body });
+		}
+	}
+
+	it('keeps upcoming shifts when the user is off call', async () => {
+		const start = new Date(Date.now() + 2 * DAY_MS).toISOString();
+		const end = new Date(Date.now() + 3 * DAY_MS).toISOString();
+		const api = new IncidentIOAPI('key', {
+			transport: new FakeTransport({
+				'/schedules': { schedules: [{ id: 'S1', name: 'Primary' }] },
+				'/schedule_entries': {
+					schedule_entries: {
+						final: [{ user: { id: 'U1', name: 'Me', email: 'me@example.com' }, start_at: start, end_at: end }],
+					},
+				},
+				'/incidents': { incidents: [] },
+			}),
+		});
+
+		const result = await api.syncData({ id: 'U1', email: 'me@example.com' }, { upcomingShifts: 3 });
+		expect(result.onCall?.schedules).toEqual([]);
+		expect(result.onCall?.upcoming).toEqual([{ schedule: 'Primary', start, end }]);
+
+		const frontmatter = buildOnCallFrontmatter(result.onCall);
+		expect(frontmatter.next_on_call).toBe(start);
+		expect(frontmatter.next_on_call_schedule).toBe('Primary');
+
+		const dailyNote = new DailyNoteManager(new App() as never, DEFAULT_SETTINGS);
+		const section = dailyNote.formatSyncResultForDate(result, new Date());
+		expect(section).toContain('- Next shifts:');
+		expect(section).toContain('  - Primary: ');
+	});
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import {
+	checkboxMarker,
+	findCheckboxChanges,
+	findNewTasks,
+	parseCheckboxes,
+	removeDuplicateCheckboxes,
+	replaceTaskLine,
+	setCheckboxState,
+} from '../checkbox-sync';
+import { regionEnd, regionStart } from '../managed-regions';
+import { IncidentDetails } from '../types';
+
+const note = [
+	'## Follow-ups',
+	'',
+	`- [ ] Add retries — *Alice* ${checkboxMarker('follow-up', '01FU1')}`,
+	`- [x] [Fix alerting](https://example.com/1) — *Unassigned* ${checkboxMarker('follow-up', '01FU2')}`,
+	'- [ ] My own task',
+	'',
+	'## Actions',
+	'',
+	`- [X] Roll back ${checkboxMarker('action', '01AC1')}`,
+].join('\n');
+
+describe('parseCheckboxes', () => {
+	it('finds marked checkboxes and their state', () => {
+		expect(parseCheckboxes(note)).toEqual([
+			{ kind: 'follow-up', id: '01FU1', checked: false },
+			{ kind: 'follow-up', id: '01FU2', checked: true },
+			{ kind: 'action', id: '01AC1', checked: true },
+		]);
+	});
+
+	it('ignores checkboxes without a marker', () => {
+		expect(parseCheckboxes('- [x] My own task')).toEqual([]);
+	});
+});
+
+describe('setCheckboxState', () => {
+	it('changes only the marked checkbox', () => {
+		const updated = setCheckboxState(note, 'follow-up', '01FU1', true);
+		expect(updated).toContain(`- [x] Add retries — *Alice* ${checkboxMarker('follow-up', '01FU1')}`);
+		expect(updated.split('\n').filter((line, index) => line !== note.split('\n')[index])).toHaveLength(1);
+	});
+
+	it('matches the kind as well as the ID', () => {
+		expect(setCheckboxState(note, 'action', '01FU1', true)).toBe(note);
+	});
+});
+
+describe('findCheckboxChanges', () => {
+	const details: IncidentDetails = {
+		updates: [],
+		timestamps: [],
+		attachments: [],
+		followUps: [
+			{ id: '01FU1', title: 'Add retries', status: 'outstanding', created_at: '2024-01-15T10:00:00Z' },
+			{ id: '01FU2', title: 'Fix alerting', status: 'outstanding', created_at: '2024-01-15T10:00:00Z' },
+		],
+		actions: [
+			{ id: '01AC1', description: 'Roll back', status: 'completed', created_at: '2024-01-15T10:00:00Z' },
+		],
+	};
+
+	it('reports checkboxes that differ from the last sync', () => {
+		expect(findCheckboxChanges(parseCheckboxes(note), details)).toEqual([
+			{ kind: 'follow-up', id: '01FU2', checked: true, title: 'Fix alerting' },
+		]);
+	});
+
+	it('ignores items the last sync didn\'t see', () => {
+		const checkboxes = [{ kind: 'action' as const, id: 'unknown', checked: true }];
+		expect(findCheckboxChanges(checkboxes, details)).toEqual([]);
+	});
+});
+
+describe('findNewTasks', () => {
+	const debrief = [
+		'---',
+		'tags: [incident]',
+		'---',
+		regionStart('follow-ups'),
+		'- [ ] Synced without a marker',
+		regionEnd('follow-ups'),
+		'## Notes',
+		'',
+		'- [ ] Add alerting on queue depth  ',
+		'  * [ ] Write a runbook',
+		'- [x] Already done',
+		`- [ ] Add retries ${checkboxMarker('follow-up', '01FU1')}`,
+		'- [ ] ',
+	].join('\n');
+
+	it('finds unchecked tasks the user wrote outside managed regions', () => {
+		expect(findNewTasks(debrief)).toEqual([
+			{ line: '- [ ] Add alerting on queue depth  ', title: 'Add alerting on queue depth' },
+			{ line: '  * [ ] Write a runbook', title: 'Write a runbook' },
+		]);
+	});
+});
+
+describe('replaceTaskLine', () => {
+	it('replaces the first copy of the line and keeps its indent', () => {
+		const content = '- [ ] Write a runbook\n  - [ ] Write a runbook';
+		const task = { line: '  - [ ] Write a runbook', title: 'Write a runbook' };
+		expect(replaceTaskLine(content, task, '- [ ] Linked')).toBe('- [ ] Write a runbook\n  - [ ] Linked');
+	});
+
+	it('leaves the note alone if the line has changed', () => {
+		const task = { line: '- [ ] Gone', title: 'Gone' };
+		expect(replaceTaskLine('- [ ] Edited', task, '- [ ] Linked')).toBe('- [ ] Edited');
+	});
+});
+
+describe('removeDuplicateCheckboxes', () => {
+	const linked = `- [ ] Add alerting — *Alice* ${checkboxMarker('follow-up', '01FU3')}`;
+	const synced = [
+		regionStart('follow-ups'),
+		`- [ ] Add retries — *Alice* ${checkboxMarker('follow-up', '01FU1')}`,
+		`- [x] Add alerting — *Alice* ${checkboxMarker('follow-up', '01FU3')}`,
+		regionEnd('follow-ups'),
+	];
+
+	it('keeps the user\'s linked line in place of the synced one, with the synced state', () => {
+		const content = [...synced, '## Notes', linked].join('\n');
+		expect(removeDuplicateCheckboxes(content)).toBe([
+			synced[0],
+			synced[1],
+			synced[3],
+			'## Notes',
+			`- [x] Add alerting — *Alice* ${checkboxMarker('follow-up', '01FU3')}`,
+		].join('\n'));
+	});
+
+	it('leaves notes without linked lines of their own alone', () => {
+		const content = [...synced, '## Notes', '- [ ] My own task'].join('\n');
+		expect(removeDuplicateCheckboxes(content)).toBe(content);
+		expect(removeDuplicateCheckboxes(`## Notes\n${linked}`)).toBe(`## Notes\n${linked}`);
+	});
+});
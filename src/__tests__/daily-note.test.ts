@@ -1,5 +1,13 @@
 import { describe, it, expect } from 'vitest';
-import { filterIncidentsForDate } from '../daily-note';
+import {
+	buildOnCallFrontmatter,
+	filterIncidentsForDate,
+	formatNoIncidentsMessage,
+	formatShift,
+	formatTeamRoles,
+	getIncidentGroup,
+	groupIncidents,
+} from '../daily-note';
 import { FullIncident } from '../types';
 
 describe('filterIncidentsForDate', () => {
@@ -147,3 +155,121 @@ describe('filterIncidentsForDate', () => {
 		expect(result.map(i => i.reference)).toContain('INC-2');
 	});
 });
+
+describe('formatNoIncidentsMessage', () => {
+	it('describes common filters naturally', () => {
+		expect(formatNoIncidentsMessage({ roleTypes: ['lead'], customRoleNames: [] })).toBe("_No incidents you're leading_");
+		expect(formatNoIncidentsMessage({ roleTypes: ['reporter'], customRoleNames: [] })).toBe('_No incidents you reported_');
+		expect(formatNoIncidentsMessage({ roleTypes: ['lead', 'reporter', 'custom'], customRoleNames: [] }))
+			.toBe('_No incidents you have a role in_');
+	});
+
+	it('lists mixed roles', () => {
+		expect(formatNoIncidentsMessage({ roleTypes: ['lead', 'reporter'], customRoleNames: ['Scribe'] }))
+			.toBe("_No incidents where you're lead, reporter or Scribe_");
+		expect(formatNoIncidentsMessage({ roleTypes: [], customRoleNames: ['Scribe'] }))
+			.toBe("_No incidents where you're Scribe_");
+	});
+
+	it('mentions watching when watched incidents are included', () => {
+		expect(formatNoIncidentsMessage({ roleTypes: ['lead'], customRoleNames: [] }, true))
+			.toBe("_No incidents you're involved in or watching_");
+	});
+
+	it('ignores role names when every custom role is included', () => {
+		expect(formatNoIncidentsMessage({ roleTypes: ['lead', 'custom'], customRoleNames: ['Scribe'] }))
+			.toBe("_No incidents where you're lead or in a custom role_");
+	});
+});
+
+describe('groupIncidents', () => {
+	const createIncident = (id: string, overrides: Partial<FullIncident>): FullIncident => ({
+		id,
+		reference: `INC-${id}`,
+		name: 'Test Incident',
+		created_at: '2024-01-15T10:00:00Z',
+		status: 'Active',
+		statusCategory: 'live',
+		severity: 'High',
+		url: `https://app.incident.io/incidents/INC-${id}`,
+		roles: [],
+		customFields: [],
+		timestamps: [],
+		updates: [],
+		actions: [],
+		followUps: [],
+		attachments: [],
+		...overrides,
+	});
+
+	it('groups by why each incident was synced', () => {
+		const incidents = [
+			createIncident('1', { inclusion: ['subscribed'] }),
+			createIncident('2', { inclusion: ['role', 'custom_field'] }),
+			createIncident('3', { inclusion: ['lead', 'subscribed'] }),
+		];
+		expect(groupIncidents(incidents).map(({ group, incidents }) => [group, incidents.map(i => i.id)])).toEqual([
+			['Leading', ['3']],
+			['Involved', ['2']],
+			['Watching', ['1']],
+		]);
+	});
+
+	it('formats team members\' roles', () => {
+		const incident = createIncident('1', {
+			roles: [
+				{ role: 'Incident Lead', roleType: 'lead', assignee: 'Alice', isUser: false, isTeamMember: true },
+				{ role: 'Reporter', roleType: 'reporter', assignee: 'Zed', isUser: false, isTeamMember: false },
+				{ role: 'Scribe', roleType: 'custom', assignee: 'Bob', isUser: false, isTeamMember: true },
+			],
+		});
+		expect(formatTeamRoles(incident)).toBe('Alice (Incident Lead), Bob (Scribe)');
+		expect(formatTeamRoles(createIncident('2', {}))).toBe('');
+	});
+
+	it('falls back to roles for results cached without inclusion', () => {
+		const lead = createIncident('1', { roles: [{ role: 'Lead', roleType: 'lead', assignee: 'Me', isUser: true }] });
+		const other = createIncident('2', { roles: [{ role: 'Lead', roleType: 'lead', assignee: 'Someone', isUser: false }] });
+		expect(getIncidentGroup(lead)).toBe('Leading');
+		expect(getIncidentGroup(other)).toBe('Involved');
+	});
+});
+
+describe('formatShift', () => {
+	// Local times, as shifts are shown in the vault's timezone
+	const start = new Date(2024, 0, 15, 9, 0).toISOString();
+	const end = new Date(2024, 0, 22, 9, 30).toISOString();
+
+	it('shows the times and who hands over', () => {
+		expect(formatShift({ schedule: 'Primary', start, end, handoverFrom: 'Alice', handoverTo: 'Bob' }))
+			.toBe('Primary: 2024-01-15 09:00 → 2024-01-22 09:30 (from Alice, to Bob)');
+	});
+
+	it('leaves out unknown handovers', () => {
+		expect(formatShift({ schedule: 'Primary', start, end })).toBe('Primary: 2024-01-15 09:00 → 2024-01-22 09:30');
+	});
+});
+
+describe('buildOnCallFrontmatter', () => {
+	it('records the current schedules, the first shift to end and the next shift', () => {
+		expect(buildOnCallFrontmatter({
+			schedules: ['Primary', 'Database'],
+			shifts: [
+				{ schedule: 'Primary', start: '2024-01-15T09:00:00Z', end: '2024-01-22T09:00:00Z', handoverTo: 'Bob' },
+				{ schedule: 'Database', start: '2024-01-16T09:00:00Z', end: '2024-01-17T09:00:00Z', handoverTo: 'Carol' },
+			],
+			upcoming: [{ schedule: 'Secondary', start: '2024-02-01T09:00:00Z', end: '2024-02-02T09:00:00Z' }],
+		})).toEqual({
+			on_call: ['Primary', 'Database'],
+			on_call_until: '2024-01-17T09:00:00Z',
+			on_call_handover_to: 'Carol',
+			next_on_call: '2024-02-01T09:00:00Z',
+			next_on_call_schedule: 'Secondary',
+		});
+	});
+
+	it('leaves every key empty when not on call', () => {
+		const frontmatter = buildOnCallFrontmatter(null);
+		expect(Object.keys(frontmatter).filter(key => frontmatter[key] !== undefined)).toEqual([]);
+	});
+});
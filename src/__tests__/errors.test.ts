@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import {
+	ApiError,
+	AuthenticationError,
+	CancelledError,
+	ForbiddenError,
+	NetworkError,
+	NotFoundError,
+	RateLimitedError,
+	ServerError,
+	TimeoutError,
+	createApiError,
+	createTransportError,
+	describeApiError,
+	parseMissingScope,
+	throwIfAborted,
+} from '../errors';
+
+describe('createApiError', () => {
+	it('maps statuses to error types', () => {
+		expect(createApiError(401, '/v2/users')).toBeInstanceOf(AuthenticationError);
+		expect(createApiError(403, '/v2/users')).toBeInstanceOf(ForbiddenError);
+		expect(createApiError(404, '/v2/users')).toBeInstanceOf(NotFoundError);
+		expect(createApiError(429, '/v2/users')).toBeInstanceOf(RateLimitedError);
+		expect(createApiError(503, '/v2/users')).toBeInstanceOf(ServerError);
+		expect(createApiError(422, '/v2/users').constructor).toBe(ApiError);
+	});
+
+	it('carries status, endpoint and request ID', () => {
+		const error = createApiError(500, '/v2/incidents', { requestId: 'req_123' });
+		expect(error.status).toBe(500);
+		expect(error.endpoint).toBe('/v2/incidents');
+		expect(error.requestId).toBe('req_123');
+	});
+
+	it('only marks transient errors as retryable', () => {
+		expect(createApiError(429, '/v2/users').retryable).toBe(true);
+		expect(createApiError(502, '/v2/users').retryable).toBe(true);
+		expect(createApiError(401, '/v2/users').retryable).toBe(false);
+		expect(createApiError(404, '/v2/users').retryable).toBe(false);
+		expect(createApiError(400, '/v2/users').retryable).toBe(false);
+	});
+
+	it('keeps the Retry-After header for rate limits', () => {
+		const error = createApiError(429, '/v2/users', { retryAfter: '5' });
+		expect((error as RateLimitedError).retryAfter).toBe('5');
+	});
+});
+
+describe('createTransportError', () => {
+	it('distinguishes timeouts from other network failures', () => {
+		expect(createTransportError(new Error('Request timed out'), '/v2/users')).toBeInstanceOf(TimeoutError);
+		expect(createTransportError(new Error('net::ERR_NAME_NOT_RESOLVED'), '/v2/users')).toBeInstanceOf(NetworkError);
+	});
+
+	it('passes typed errors through', () => {
+		const error = new NotFoundError('/v2/users');
+		expect(createTransportError(error, '/v2/users')).toBe(error);
+	});
+});
+
+describe('parseMissingScope', () => {
+	it('reads an explicit scope', () => {
+		expect(parseMissingScope({ errors: [{ scope: 'schedules.read' }] })).toBe('schedules.read');
+	});
+
+	it('finds the scope in the error message', () => {
+		expect(parseMissingScope({
+			errors: [{ message: 'API key is missing required scope: incidents.read' }],
+		})).toBe('incidents.read');
+	});
+
+	it('returns undefined when no scope is named', () => {
+		expect(parseMissingScope({ errors: [{ message: 'Forbidden' }] })).toBeUndefined();
+		expect(parseMissingScope('<html>')).toBeUndefined();
+	});
+});
+
+describe('describeApiError', () => {
+	it('gives actionable messages', () => {
+		expect(describeApiError(new AuthenticationError('/v2/users'))).toContain('API key revoked');
+		expect(describeApiError(new ForbiddenError('/v2/schedules', undefined, 'schedules.read')))
+			.toBe('API key is missing the "schedules.read" scope');
+		expect(describeApiError(new ForbiddenError('/v2/schedules'))).toContain('/v2/schedules');
+		expect(describeApiError(new ServerError(503, '/v2/users', 'req_1'))).toContain('req_1');
+	});
+
+	it('falls back to the error message', () => {
+		expect(describeApiError(new Error('Could not find user'))).toBe('Could not find user');
+		expect(describeApiError('oops')).toBe('Unknown error');
+	});
+});
+
+describe('throwIfAborted', () => {
+	it('throws CancelledError only once the signal is aborted', () => {
+		const controller = new AbortController();
+		expect(() => throwIfAborted(undefined)).not.toThrow();
+		expect(() => throwIfAborted(controller.signal)).not.toThrow();
+		controller.abort();
+		expect(() => throwIfAborted(controller.signal)).toThrow(CancelledError);
+	});
+
+	it('is not treated as an API error', () => {
+		expect(new CancelledError()).not.toBeInstanceOf(ApiError);
+		expect(describeApiError(new CancelledError())).toBe('sync cancelled');
+	});
+});
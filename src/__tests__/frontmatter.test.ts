@@ -0,0 +1,187 @@
+import { describe, it, expect } from 'vitest';
+import {
+	applyIncidentFrontmatter,
+	buildIncidentFrontmatter,
+	buildIncidentTags,
+	getManagedFrontmatterKeys,
+	getMappedFrontmatterKeys,
+	toFrontmatterKey,
+} from '../frontmatter';
+import { DEFAULT_SETTINGS, FullIncident, IncidentIOSyncSettings } from '../types';
+
+const createIncident = (overrides: Partial<FullIncident> = {}): FullIncident => ({
+	id: '01ABC',
+	reference: 'INC-123',
+	name: 'Database outage',
+	created_at: '2024-01-15T10:00:00Z',
+	status: 'Investigating',
+	statusCategory: 'live',
+	severity: 'SEV 1',
+	url: 'https://app.incident.io/incidents/INC-123',
+	roles: [],
+	customFields: [],
+	timestamps: [],
+	updates: [],
+	actions: [],
+	followUps: [],
+	attachments: [],
+	...overrides,
+});
+
+describe('toFrontmatterKey', () => {
+	it('converts names to snake case', () => {
+		expect(toFrontmatterKey('Affected team')).toBe('affected_team');
+		expect(toFrontmatterKey('  Customer-Impact? ')).toBe('customer_impact');
+	});
+});
+
+describe('buildIncidentFrontmatter', () => {
+	it('groups roles by type and records the user\'s roles', () => {
+		const frontmatter = buildIncidentFrontmatter(createIncident({
+			roles: [
+				{ role: 'Incident Lead', roleType: 'lead', assignee: 'Alice', isUser: true },
+				{ role: 'Reporter', roleType: 'reporter', assignee: 'Bob', isUser: false },
+				{ role: 'Comms Lead', roleType: 'custom', assignee: 'Carol', isUser: false },
+				{ role: 'Comms Lead', roleType: 'custom', assignee: 'Dan', isUser: false },
+			],
+		}), DEFAULT_SETTINGS);
+
+		expect(frontmatter.lead).toEqual(['Alice']);
+		expect(frontmatter.reporter).toEqual(['Bob']);
+		expect(frontmatter.roles).toEqual({ comms_lead: ['Carol', 'Dan'] });
+		expect(frontmatter.my_role).toEqual(['Incident Lead']);
+	});
+
+	it('records team members\' roles in team mode', () => {
+		const frontmatter = buildIncidentFrontmatter(createIncident({
+			roles: [
+				{ role: 'Incident Lead', roleType: 'lead', assignee: 'Alice', isUser: false, isTeamMember: true },
+				{ role: 'Scribe', roleType: 'custom', assignee: 'Bob', isUser: false, isTeamMember: false },
+			],
+		}), DEFAULT_SETTINGS);
+
+		expect(frontmatter.team_roles).toEqual(['Alice (Incident Lead)']);
+		expect(buildIncidentFrontmatter(createIncident(), DEFAULT_SETTINGS).team_roles).toBeUndefined();
+	});
+
+	it('records the workspace when there are several', () => {
+		const frontmatter = buildIncidentFrontmatter(createIncident({
+			workspace: { id: 'acme', name: 'Acme' },
+		}), DEFAULT_SETTINGS);
+
+		expect(frontmatter.workspace).toBe('Acme');
+		expect(buildIncidentFrontmatter(createIncident(), DEFAULT_SETTINGS).workspace).toBeUndefined();
+	});
+
+	it('maps, excludes and groups custom fields', () => {
+		const settings: IncidentIOSyncSettings = {
+			...DEFAULT_SETTINGS,
+			customFieldMappings: [
+				{ fieldName: 'affected team', key: 'team' },
+				{ fieldName: 'Internal notes', key: '' },
+			],
+		};
+		const frontmatter = buildIncidentFrontmatter(createIncident({
+			customFields: [
+				{ name: 'Affected Team', value: 'Payments' },
+				{ name: 'Internal notes', value: 'secret' },
+				{ name: 'Product area', value: 'Checkout' },
+			],
+		}), settings);
+
+		expect(frontmatter.team).toBe('Payments');
+		expect(frontmatter.custom_fields).toEqual({ product_area: 'Checkout' });
+		expect(JSON.stringify(frontmatter)).not.toContain('secret');
+	});
+
+	it('counts follow-ups and actions', () => {
+		const frontmatter = buildIncidentFrontmatter(createIncident({
+			followUps: [
+				{ id: '1', title: 'a', status: 'outstanding', created_at: '' },
+				{ id: '2', title: 'b', status: 'completed', created_at: '' },
+			],
+			actions: [{ id: '3', status: 'outstanding', created_at: '' }],
+		}), DEFAULT_SETTINGS);
+
+		expect(frontmatter.follow_up_count).toBe(2);
+		expect(frontmatter.open_follow_up_count).toBe(1);
+		expect(frontmatter.action_count).toBe(1);
+		expect(frontmatter.open_action_count).toBe(1);
+	});
+
+	it('keys timestamps by name', () => {
+		const frontmatter = buildIncidentFrontmatter(createIncident({
+			timestamps: [{ name: 'Impact started', value: '2024-01-15T09:00:00Z' }],
+		}), DEFAULT_SETTINGS);
+
+		expect(frontmatter.timestamps).toEqual({ impact_started: '2024-01-15T09:00:00Z' });
+	});
+});
+
+describe('buildIncidentTags', () => {
+	it('tags status and severity under the incident tag', () => {
+		expect(buildIncidentTags(createIncident())).toEqual([
+			'incident',
+			'incident/status/live',
+			'incident/severity/sev-1',
+		]);
+	});
+});
+
+describe('applyIncidentFrontmatter', () => {
+	const incident = createIncident();
+	const keys = getManagedFrontmatterKeys(DEFAULT_SETTINGS);
+
+	it('keeps user keys and removes stale managed keys', () => {
+		const frontmatter: Record<string, unknown> = { owner: 'me', closed_at: '2024-01-01', status: 'Old' };
+		applyIncidentFrontmatter(frontmatter, buildIncidentFrontmatter(incident, DEFAULT_SETTINGS), keys, incident);
+
+		expect(frontmatter.owner).toBe('me');
+		expect(frontmatter.status).toBe('Investigating');
+		expect(frontmatter).not.toHaveProperty('closed_at');
+	});
+
+	it('replaces plugin tags but keeps user tags', () => {
+		const frontmatter: Record<string, unknown> = { tags: ['postmortem', 'incident/status/closed'] };
+		applyIncidentFrontmatter(frontmatter, {}, keys, incident);
+
+		expect(frontmatter.tags).toEqual(['incident', 'incident/status/live', 'incident/severity/sev-1', 'postmortem']);
+	});
+
+	it('adds the reference as an alias once', () => {
+		const frontmatter: Record<string, unknown> = { aliases: 'DB outage' };
+		applyIncidentFrontmatter(frontmatter, {}, keys, incident);
+		applyIncidentFrontmatter(frontmatter, {}, keys, incident);
+
+		expect(frontmatter.aliases).toEqual(['INC-123', 'DB outage']);
+	});
+
+	it('treats mapped custom field keys as managed', () => {
+		const settings = { ...DEFAULT_SETTINGS, customFieldMappings: [{ fieldName: 'Team', key: 'team' }] };
+		expect(getManagedFrontmatterKeys(settings)).toContain('team');
+	});
+
+	it('removes keys from mappings that have since been removed or renamed', () => {
+		const settings = { ...DEFAULT_SETTINGS, customFieldMappings: [{ fieldName: 'Team', key: 'owning_team' }] };
+		const frontmatter: Record<string, unknown> = { team: 'Payments', product: 'Checkout', owner: 'me' };
+		const managedKeys = getManagedFrontmatterKeys(settings, ['team', 'product']);
+		applyIncidentFrontmatter(frontmatter, buildIncidentFrontmatter(incident, settings), managedKeys, incident);
+
+		expect(frontmatter).not.toHaveProperty('team');
+		expect(frontmatter).not.toHaveProperty('product');
+		expect(frontmatter.owner).toBe('me');
+	});
+
+	it('lists the keys the current mappings write, once each', () => {
+		const settings = {
+			...DEFAULT_SETTINGS,
+			customFieldMappings: [
+				{ fieldName: 'Team', key: 'team' },
+				{ fieldName: 'Squad', key: 'team' },
+				{ fieldName: 'Status', key: 'status' },
+				{ fieldName: 'Product', key: '' },
+			],
+		};
+		expect(getMappedFrontmatterKeys(settings)).toEqual(['team']);
+	});
+});
@@ -1,5 +1,18 @@
 import { describe, it, expect } from 'vitest';
-import { yamlSafeValue, formatDate, formatDuration } from '../incident-notes';
+import {
+	yamlSafeValue,
+	formatDate,
+	formatDuration,
+	slugify,
+	sanitizePathSegment,
+	renderNotePathPattern,
+	buildIncidentNotePath,
+	getArchiveRule,
+	getIncidentNoteFolder,
+	hashContent,
+	applyNotePaths,
+} from '../incident-notes';
+import { DEFAULT_SETTINGS, FullIncident, IncidentIOSyncSettings, SyncResult } from '../types';
 
 describe('yamlSafeValue', () => {
 	it('returns empty string for undefined', () => {
@@ -122,3 +135,157 @@ describe('formatDuration', () => {
 		expect(formatDuration(1441)).toBe('24h 1m');
 	});
 });
+
+describe('slugify', () => {
+	it('lowercases and joins words with dashes', () => {
+		expect(slugify('DB: Connection Outage!')).toBe('db-connection-outage');
+	});
+
+	it('folds accents to plain letters', () => {
+		expect(slugify('Café réseau')).toBe('cafe-reseau');
+	});
+
+	it('trims leading and trailing separators', () => {
+		expect(slugify('  --Hello--  ')).toBe('hello');
+	});
+
+	it('truncates long slugs at a word boundary', () => {
+		const slug = slugify('one two three four five six seven eight nine ten', 20);
+		expect(slug).toBe('one-two-three-four');
+	});
+});
+
+describe('sanitizePathSegment', () => {
+	it('removes characters not allowed in file names', () => {
+		expect(sanitizePathSegment('INC-1 - DB: outage? [prod]')).toBe('INC-1 - DB outage prod');
+	});
+
+	it('strips leading and trailing dots', () => {
+		expect(sanitizePathSegment('..hidden.')).toBe('hidden');
+	});
+});
+
+describe('renderNotePathPattern', () => {
+	const incident = {
+		id: '01ABC',
+		reference: 'INC-42',
+		name: 'DB: Primary outage',
+		created_at: '2024-03-05T10:00:00',
+		status: 'Live',
+		severity: 'Major',
+	} as FullIncident;
+
+	it('renders the default pattern as the reference', () => {
+		expect(renderNotePathPattern('{{reference}}', incident)).toBe('INC-42');
+	});
+
+	it('renders date folders and slugged names', () => {
+		expect(renderNotePathPattern('{{year}}/{{month}}/{{reference}} - {{slug name}}', incident))
+			.toBe('2024/03/INC-42 - db-primary-outage');
+	});
+
+	it('sanitizes raw names and drops empty segments', () => {
+		expect(renderNotePathPattern('{{type}}/{{name}}', incident)).toBe('DB Primary outage');
+	});
+
+	it('falls back to the reference when the pattern renders empty', () => {
+		expect(renderNotePathPattern('{{type}}', incident)).toBe('INC-42');
+	});
+});
+
+describe('buildIncidentNotePath', () => {
+	const incident = { reference: 'INC-7', name: 'Test', created_at: '2024-01-01T00:00:00' } as FullIncident;
+
+	it('joins the folder and rendered pattern', () => {
+		expect(buildIncidentNotePath('Incidents', '{{reference}}', incident)).toBe('Incidents/INC-7');
+	});
+
+	it('falls back to the reference for malformed patterns', () => {
+		expect(buildIncidentNotePath('Incidents', '{{#if name}}', incident)).toBe('Incidents/INC-7');
+	});
+});
+
+describe('archive rules', () => {
+	const settings: IncidentIOSyncSettings = {
+		...DEFAULT_SETTINGS,
+		archiveRules: {
+			closed: { action: 'move', folder: 'Incidents/Archive' },
+			merged: { action: 'delete', folder: 'Incidents/Merged' },
+			declined: { action: 'keep', folder: 'Incidents/Declined' },
+		},
+	};
+	const incident = (statusCategory: FullIncident['statusCategory']) => ({ statusCategory }) as FullIncident;
+
+	it('has no rule for open incidents', () => {
+		expect(getArchiveRule(settings, incident('live'))).toBeNull();
+		expect(getArchiveRule(settings, incident('paused'))).toBeNull();
+	});
+
+	it('treats keep as no rule', () => {
+		expect(getArchiveRule(settings, incident('declined'))).toBeNull();
+	});
+
+	it('returns move and delete rules', () => {
+		expect(getArchiveRule(settings, incident('closed'))?.action).toBe('move');
+		expect(getArchiveRule(settings, incident('merged'))?.action).toBe('delete');
+	});
+
+	it('routes moved incidents to the archive folder', () => {
+		expect(getIncidentNoteFolder(settings, incident('closed'))).toBe('Incidents/Archive');
+		expect(getIncidentNoteFolder(settings, incident('live'))).toBe('Incidents');
+		expect(getIncidentNoteFolder(settings, incident('declined'))).toBe('Incidents');
+	});
+});
+
+describe('hashContent', () => {
+	it('is stable for the same input', () => {
+		expect(hashContent('# INC-123\nDatabase outage')).toBe(hashContent('# INC-123\nDatabase outage'));
+	});
+
+	it('changes when content changes', () => {
+		expect(hashContent('status: live')).not.toBe(hashContent('status: closed'));
+		expect(hashContent('')).not.toBe(hashContent(' '));
+	});
+
+	it('returns a hex string', () => {
+		expect(hashContent('anything')).toMatch(/^[0-9a-f]+$/);
+	});
+});
+
+describe('applyNotePaths', () => {
+	const incident = (id: string, workspace: { id: string; name: string }): FullIncident => ({
+		id,
+		reference: 'INC-123',
+		name: 'Database outage',
+		created_at: '2024-01-15T10:00:00Z',
+		status: 'Active',
+		statusCategory: 'live',
+		severity: 'High',
+		url: 'https://app.incident.io/incidents/INC-123',
+		roles: [],
+		customFields: [],
+		timestamps: [],
+		updates: [],
+		actions: [],
+		followUps: [],
+		attachments: [],
+		workspace,
+	});
+
+	it('keeps incidents with the same reference in different workspaces apart', () => {
+		const main = { id: 'main', name: 'Main' };
+		const acme = { id: 'acme', name: 'Acme' };
+		const result: SyncResult = {
+			onCall: null,
+			incidents: [
+				{ id: 'A1', reference: 'INC-123', name: 'Database outage', status: 'Active', workspace: acme },
+				{ id: 'M1', reference: 'INC-123', name: 'Database outage', status: 'Active', workspace: main },
+			],
+			fullIncidents: [incident('M1', main), incident('A1', acme)],
+		};
+
+		applyNotePaths(result, new Map([['M1', 'Incidents/INC-123.md'], ['A1', 'Incidents/Acme/INC-123.md']]));
+		expect(result.incidents.map(entry => entry.notePath)).toEqual(['Incidents/Acme/INC-123.md', 'Incidents/INC-123.md']);
+		expect(result.fullIncidents.map(entry => entry.notePath)).toEqual(['Incidents/INC-123.md', 'Incidents/Acme/INC-123.md']);
+	});
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import {
+	mergeRegions,
+	mergeManagedContent,
+	PREVIOUS_CONTENT_HEADING,
+	hasManagedRegions,
+	splitFrontmatter,
+	wrapRegion,
+} from '../managed-regions';
+
+const region = (name: string, ...lines: string[]) => wrapRegion(name, lines).join('\n');
+
+describe('splitFrontmatter', () => {
+	it('returns null frontmatter when note has none', () => {
+		expect(splitFrontmatter('# Title\n')).toEqual({ frontmatter: null, body: '# Title\n' });
+	});
+
+	it('splits frontmatter from body', () => {
+		expect(splitFrontmatter('---\na: 1\n---\n# Title\n')).toEqual({
+			frontmatter: 'a: 1',
+			body: '# Title\n',
+		});
+	});
+});
+
+describe('hasManagedRegions', () => {
+	it('detects region markers', () => {
+		expect(hasManagedRegions(region('overview', 'x'))).toBe(true);
+		expect(hasManagedRegions('# Plain note')).toBe(false);
+	});
+
+	it('ignores unterminated regions', () => {
+		expect(hasManagedRegions('<!-- incident-io:start overview -->\nx')).toBe(false);
+	});
+});
+
+describe('mergeRegions', () => {
+	it('replaces region contents and keeps user text between regions', () => {
+		const existing = [region('a', 'old a'), 'my notes', region('b', 'old b'), 'more notes'].join('\n\n');
+		const generated = [region('a', 'new a'), region('b', 'new b')].join('\n\n');
+		expect(mergeRegions(existing, generated)).toBe(
+			[region('a', 'new a'), 'my notes', region('b', 'new b'), 'more notes'].join('\n\n')
+		);
+	});
+
+	it('inserts new regions after the preceding existing region', () => {
+		const existing = [region('a', 'a'), 'notes', region('c', 'c')].join('\n\n');
+		const generated = [region('a', 'a'), region('b', 'b'), region('c', 'c')].join('\n\n');
+		expect(mergeRegions(existing, generated)).toBe(
+			[region('a', 'a'), region('b', 'b'), 'notes', region('c', 'c')].join('\n\n')
+		);
+	});
+
+	it('inserts leading new regions before the first existing region', () => {
+		const existing = ['intro', region('b', 'b')].join('\n\n');
+		const generated = [region('a', 'a'), region('b', 'b')].join('\n\n');
+		expect(mergeRegions(existing, generated)).toBe(
+			['intro', region('a', 'a'), region('b', 'b')].join('\n\n')
+		);
+	});
+
+	it('removes regions that are no longer generated', () => {
+		const existing = [region('a', 'a'), region('b', 'b'), 'notes'].join('\n\n');
+		const generated = region('a', 'a');
+		expect(mergeRegions(existing, generated)).toBe([region('a', 'a'), 'notes'].join('\n\n'));
+	});
+
+	it('ignores scaffolding outside regions in generated content', () => {
+		const existing = [region('a', 'a'), 'user notes'].join('\n\n');
+		const generated = [region('a', 'a2'), '## Notes'].join('\n\n');
+		expect(mergeRegions(existing, generated)).toBe([region('a', 'a2'), 'user notes'].join('\n\n'));
+	});
+});
+
+describe('mergeManagedContent', () => {
+	it('keeps the body of notes without regions below the generated content', () => {
+		const existing = '---\nincident_id: 1\nowner: me\n---\n# Old generated body\n\nMy investigation notes\n';
+		const generated = `${region('a', 'a')}\n`;
+		expect(mergeManagedContent(existing, generated)).toBe(
+			`---\nincident_id: 1\nowner: me\n---\n${region('a', 'a')}\n\n${PREVIOUS_CONTENT_HEADING}\n\n# Old generated body\n\nMy investigation notes\n`
+		);
+	});
+
+	it('leaves the kept body alone on the next sync', () => {
+		const first = mergeManagedContent('My notes\n', region('a', 'old'));
+		expect(mergeManagedContent(first, region('a', 'new'))).toBe(
+			`${region('a', 'new')}\n\n${PREVIOUS_CONTENT_HEADING}\n\nMy notes\n`
+		);
+	});
+
+	it('replaces the body when the template has no regions', () => {
+		expect(mergeManagedContent('---\nincident_id: 1\n---\n# Old\n', '# New\n')).toBe('---\nincident_id: 1\n---\n# New\n');
+	});
+
+	it('writes the generated body to empty notes', () => {
+		expect(mergeManagedContent('---\nincident_id: 1\n---\n', region('a', 'a'))).toBe(`---\nincident_id: 1\n---\n${region('a', 'a')}`);
+	});
+
+	it('keeps frontmatter and merges regions', () => {
+		const existing = `---\nincident_id: 1\nowner: me\n---\n${region('a', 'old')}\n\nInvestigation notes\n`;
+		const generated = `${region('a', 'new')}\n\n## Notes\n`;
+		expect(mergeManagedContent(existing, generated)).toBe(
+			`---\nincident_id: 1\nowner: me\n---\n${region('a', 'new')}\n\nInvestigation notes\n`
+		);
+	});
+
+	it('handles notes without frontmatter', () => {
+		expect(mergeManagedContent('# Old', region('a', 'a'))).toBe(`${region('a', 'a')}\n\n${PREVIOUS_CONTENT_HEADING}\n\n# Old\n`);
+	});
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest';
+import { TFile } from 'obsidian';
+import { IncidentNoteIndex, getIncidentIdFromFrontmatter } from '../note-index';
+
+describe('getIncidentIdFromFrontmatter', () => {
+	it('reads the incident ID', () => {
+		expect(getIncidentIdFromFrontmatter({ incident_id: '01ABC', status: 'Live' })).toBe('01ABC');
+	});
+
+	it('trims whitespace and accepts numeric IDs', () => {
+		expect(getIncidentIdFromFrontmatter({ incident_id: ' 01ABC ' })).toBe('01ABC');
+		expect(getIncidentIdFromFrontmatter({ incident_id: 123 })).toBe('123');
+	});
+
+	it('returns null without a usable ID', () => {
+		expect(getIncidentIdFromFrontmatter(undefined)).toBeNull();
+		expect(getIncidentIdFromFrontmatter({})).toBeNull();
+		expect(getIncidentIdFromFrontmatter({ incident_id: '' })).toBeNull();
+		expect(getIncidentIdFromFrontmatter({ incident_id: ['01ABC'] })).toBeNull();
+	});
+});
+
+describe('IncidentNoteIndex', () => {
+	// A vault whose files and frontmatter the tests change directly, as events would
+	const createVault = () => {
+		const files: TFile[] = [];
+		const frontmatter = new Map<TFile, Record<string, unknown>>();
+		const app = {
+			vault: {
+				getMarkdownFiles: () => files.filter(file => file.extension === 'md'),
+				getAbstractFileByPath: (path: string) => files.find(file => file.path === path) ?? null,
+			},
+			metadataCache: {
+				getFileCache: (file: TFile) => ({ frontmatter: frontmatter.get(file) }),
+			},
+		};
+
+		const addFile = (path: string, incidentId?: string) => {
+			const file = new TFile();
+			file.path = path;
+			file.extension = path.split('.').pop() || '';
+			files.push(file);
+			if (incidentId) {
+				frontmatter.set(file, { incident_id: incidentId });
+			}
+			return file;
+		};
+		const deleteFile = (file: TFile) => {
+			files.splice(files.indexOf(file), 1);
+		};
+
+		return { index: new IncidentNoteIndex(app as never), frontmatter, addFile, deleteFile };
+	};
+
+	it('finds notes by incident ID when first used', () => {
+		const { index, addFile } = createVault();
+		const note = addFile('Incidents/INC-1.md', '01ABC');
+		const other = addFile('Journal/2024-01-15.md');
+
+		expect(index.get('01ABC')).toBe(note);
+		expect(index.get('01XYZ')).toBeNull();
+		expect(index.getIncidentId(note)).toBe('01ABC');
+		expect(index.getIncidentId(other)).toBeNull();
+	});
+
+	it('ignores notes deleted without an event', () => {
+		const { index, addFile, deleteFile } = createVault();
+		const note = addFile('Incidents/INC-1.md', '01ABC');
+		expect(index.get('01ABC')).toBe(note);
+
+		deleteFile(note);
+		expect(index.get('01ABC')).toBeNull();
+		expect(index.getIncidentId(note)).toBeNull();
+	});
+
+	it('follows a renamed note', () => {
+		const { index, addFile } = createVault();
+		const note = addFile('Incidents/INC-1.md', '01ABC');
+		index.get('01ABC');
+
+		note.path = 'Archive/INC-1.md';
+		index.update(note);
+		expect(index.get('01ABC')).toBe(note);
+	});
+
+	it('picks up a changed incident ID from metadata', () => {
+		const { index, frontmatter, addFile } = createVault();
+		const note = addFile('Incidents/INC-1.md', '01ABC');
+		index.get('01ABC');
+
+		frontmatter.set(note, { incident_id: '01XYZ' });
+		index.update(note);
+		expect(index.get('01ABC')).toBeNull();
+		expect(index.get('01XYZ')).toBe(note);
+
+		frontmatter.delete(note);
+		index.update(note);
+		expect(index.get('01XYZ')).toBeNull();
+	});
+
+	it('indexes new notes once built, but not other files', () => {
+		const { index, addFile } = createVault();
+		index.get('01ABC');
+
+		const note = addFile('Incidents/INC-1.md', '01ABC');
+		const canvas = addFile('Incidents/INC-2.canvas', '01DEF');
+		index.update(note);
+		index.update(canvas);
+		expect(index.get('01ABC')).toBe(note);
+		expect(index.get('01DEF')).toBeNull();
+	});
+
+	it('keeps the first note when another claims the same incident', () => {
+		const { index, addFile } = createVault();
+		const note = addFile('Incidents/INC-1.md', '01ABC');
+		index.get('01ABC');
+
+		const copy = addFile('Incidents/INC-1 copy.md', '01ABC');
+		index.update(copy);
+		expect(index.get('01ABC')).toBe(note);
+	});
+
+	it('records notes the plugin has just written', () => {
+		const { index, addFile } = createVault();
+		const note = addFile('Incidents/INC-1.md');
+
+		index.set('01ABC', note);
+		expect(index.get('01ABC')).toBe(note);
+		expect(index.getIncidentId(note)).toBe('01ABC');
+	});
+
+	it('forgets removed notes', () => {
+		const { index, addFile } = createVault();
+		const note = addFile('Incidents/INC-1.md', '01ABC');
+		index.get('01ABC');
+
+		index.remove(note);
+		expect(index.getIncidentId(note)).toBeNull();
+		expect(index.get('01ABC')).toBeNull();
+	});
+
+	it('rebuilds after being cleared', () => {
+		const { index, frontmatter, addFile } = createVault();
+		const note = addFile('Incidents/INC-1.md', '01ABC');
+		index.get('01ABC');
+
+		frontmatter.set(note, { incident_id: '01XYZ' });
+		index.clear();
+		expect(index.get('01ABC')).toBeNull();
+		expect(index.get('01XYZ')).toBe(note);
+	});
+});
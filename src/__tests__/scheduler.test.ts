@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { CancelledError } from '../errors';
+import { TokenBucket, sleep } from '../scheduler';
+
+describe('TokenBucket', () => {
+	it('allows a burst up to capacity, then spaces requests by rate', () => {
+		const bucket = new TokenBucket(10, 2, 0);
+		expect(bucket.take(0)).toBe(0);
+		expect(bucket.take(0)).toBe(0);
+		expect(bucket.take(0)).toBe(100);
+		expect(bucket.take(100)).toBe(0);
+	});
+
+	it('pauses for the rate-limit period and halves the rate', () => {
+		const bucket = new TokenBucket(10, 5, 0);
+		bucket.penalize(0, 2000);
+		expect(bucket.take(500)).toBe(1500);
+		expect(bucket.currentRate).toBe(5);
+		// Refills from the end of the pause at the reduced rate
+		expect(bucket.take(2000)).toBe(200);
+		expect(bucket.take(2200)).toBe(0);
+	});
+
+	it('recovers towards the configured rate on success', () => {
+		const bucket = new TokenBucket(10, 5, 0);
+		bucket.penalize(0, 0);
+		bucket.penalize(0, 0);
+		expect(bucket.currentRate).toBe(2.5);
+		for (let i = 0; i < 100; i++) {
+			bucket.reward();
+		}
+		expect(bucket.currentRate).toBe(10);
+	});
+
+	it('never drops below the minimum rate', () => {
+		const bucket = new TokenBucket(1, 1, 0);
+		for (let i = 0; i < 10; i++) {
+			bucket.penalize(0, 0);
+		}
+		expect(bucket.currentRate).toBe(0.5);
+	});
+});
+
+describe('sleep', () => {
+	it('rejects straight away when the signal is already aborted', async () => {
+		const controller = new AbortController();
+		controller.abort();
+		await expect(sleep(60000, controller.signal)).rejects.toBeInstanceOf(CancelledError);
+	});
+
+	it('rejects when the signal aborts while waiting', async () => {
+		const controller = new AbortController();
+		const waiting = sleep(60000, controller.signal);
+		controller.abort();
+		await expect(waiting).rejects.toBeInstanceOf(CancelledError);
+	});
+});
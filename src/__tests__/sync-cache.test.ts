@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { formatDataAge, getCachedIncidentDetails, getOfflineFallback, restoreSyncState } from '../sync-cache';
+import {
+	AuthenticationError,
+	CancelledError,
+	ForbiddenError,
+	NetworkError,
+	RateLimitedError,
+	ServerError,
+	TimeoutError,
+} from '../errors';
+import { CachedSyncResult, FullIncident } from '../types';
+
+const createIncident = (overrides: Partial<FullIncident> = {}): FullIncident => ({
+	id: '123',
+	reference: 'INC-123',
+	name: 'Test Incident',
+	created_at: '2024-01-15T10:00:00Z',
+	status: 'Active',
+	statusCategory: 'live',
+	severity: 'High',
+	url: 'https://app.incident.io/incidents/INC-123',
+	roles: [],
+	customFields: [],
+	timestamps: [],
+	updates: [],
+	actions: [],
+	followUps: [],
+	attachments: [],
+	...overrides,
+});
+
+const cached: CachedSyncResult = {
+	syncedAt: '2024-01-15T10:00:00Z',
+	result: { onCall: null, incidents: [], fullIncidents: [createIncident()] },
+};
+
+describe('restoreSyncState', () => {
+	it('keeps the last result and fills in missing state', () => {
+		const state = restoreSyncState({ noteHashes: { '123': 'abc' }, lastResult: cached });
+		expect(state).toEqual({
+			noteHashes: { '123': 'abc' },
+			noteMappedKeys: {},
+			incidentUpdatedAt: {},
+			workspaceIncidentUpdatedAt: {},
+			lastResult: cached,
+		});
+	});
+
+	it('starts empty without stored state', () => {
+		expect(restoreSyncState(undefined).lastResult).toBeUndefined();
+		expect(restoreSyncState(undefined).noteHashes).toEqual({});
+	});
+});
+
+describe('getOfflineFallback', () => {
+	it('falls back for outages and connection problems', () => {
+		expect(getOfflineFallback(new NetworkError('/v2/incidents'), cached)).toBe(cached);
+		expect(getOfflineFallback(new TimeoutError('/v2/incidents'), cached)).toBe(cached);
+		expect(getOfflineFallback(new ServerError(503, '/v2/incidents'), cached)).toBe(cached);
+		expect(getOfflineFallback(new RateLimitedError('/v2/incidents'), cached)).toBe(cached);
+	});
+
+	it('reports errors that need fixing, and cancellation', () => {
+		expect(getOfflineFallback(new AuthenticationError('/v2/incidents'), cached)).toBeNull();
+		expect(getOfflineFallback(new ForbiddenError('/v2/incidents'), cached)).toBeNull();
+		expect(getOfflineFallback(new CancelledError(), cached)).toBeNull();
+		expect(getOfflineFallback(new Error('Template broke'), cached)).toBeNull();
+	});
+
+	it('has nothing to fall back to before the first successful sync', () => {
+		expect(getOfflineFallback(new NetworkError('/v2/incidents'), undefined)).toBeNull();
+	});
+});
+
+describe('formatDataAge', () => {
+	const now = new Date('2024-01-15T12:05:30Z').getTime();
+
+	it('formats minutes and hours', () => {
+		expect(formatDataAge('2024-01-15T12:00:00Z', now)).toBe('5m');
+		expect(formatDataAge('2024-01-15T10:00:00Z', now)).toBe('2h 5m');
+	});
+
+	it('never goes negative for timestamps from a fast clock', () => {
+		expect(formatDataAge('2024-01-15T13:00:00Z', now)).toBe('0m');
+	});
+});
+
+describe('getCachedIncidentDetails', () => {
+	it('seeds details for each cached incident', () => {
+		const followUp = { id: 'FU1', title: 'Add retries', status: 'outstanding' } as FullIncident['followUps'][number];
+		const details = getCachedIncidentDetails({
+			...cached,
+			result: { ...cached.result, fullIncidents: [createIncident({ followUps: [followUp] })] },
+		});
+		expect([...details.keys()]).toEqual(['123']);
+		expect(details.get('123')).toEqual({ updates: [], followUps: [followUp], actions: [], attachments: [], timestamps: [] });
+	});
+
+	it('is empty without a cached result', () => {
+		expect(getCachedIncidentDetails(undefined).size).toBe(0);
+	});
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { compileTemplate, renderTemplate, TemplateError, DEFAULT_INCIDENT_TEMPLATE } from '../template';
+import { INCIDENT_TEMPLATE_HELPERS } from '../incident-notes';
+
+const render = (source: string, context: unknown, helpers = {}) =>
+	renderTemplate(compileTemplate(source, Object.keys(helpers)), context, helpers);
+
+describe('renderTemplate', () => {
+	it('outputs values and nested paths', () => {
+		expect(render('{{reference}}: {{status.name}}', { reference: 'INC-1', status: { name: 'Live' } }))
+			.toBe('INC-1: Live');
+	});
+
+	it('renders missing values as empty strings', () => {
+		expect(render('[{{missing}}]', {})).toBe('[]');
+	});
+
+	it('loops over lists with access to outer scope', () => {
+		const context = { reference: 'INC-1', roles: [{ role: 'Lead' }, { role: 'Comms' }] };
+		expect(render('{{#each roles}}{{reference}} {{role}} {{@index}};{{/each}}', context))
+			.toBe('INC-1 Lead 0;INC-1 Comms 1;');
+	});
+
+	it('renders else branch for empty lists', () => {
+		expect(render('{{#each items}}x{{else}}none{{/each}}', { items: [] })).toBe('none');
+	});
+
+	it('treats empty lists as falsy in conditionals', () => {
+		expect(render('{{#if items}}yes{{else}}no{{/if}}', { items: [] })).toBe('no');
+		expect(render('{{#unless items}}empty{{/unless}}', { items: [] })).toBe('empty');
+	});
+
+	it('calls helpers with paths and literals', () => {
+		const helpers = { join: (a: unknown, b: unknown) => `${String(a)}-${String(b)}` };
+		expect(render('{{join name "x"}}', { name: 'a' }, helpers)).toBe('a-x');
+	});
+
+	it('strips lines containing only block tags', () => {
+		const source = 'start\n{{#each items}}\n- {{this}}\n{{/each}}\nend\n';
+		expect(render(source, { items: ['a', 'b'] })).toBe('start\n- a\n- b\nend\n');
+	});
+
+	it('wraps regions in markers and omits blank regions', () => {
+		const source = '{{#region a}}\ncontent\n{{/region}}\n{{#region b}}\n{{missing}}\n{{/region}}\n';
+		expect(render(source, {})).toBe('<!-- incident-io:start a -->\ncontent\n<!-- incident-io:end a -->\n');
+	});
+
+	it('ignores comments', () => {
+		expect(render('a{{! note }}b', {})).toBe('ab');
+	});
+});
+
+describe('compileTemplate errors', () => {
+	it('rejects unclosed blocks', () => {
+		expect(() => compileTemplate('{{#each items}}x')).toThrow(TemplateError);
+	});
+
+	it('rejects mismatched closing tags', () => {
+		expect(() => compileTemplate('{{#if a}}x{{/each}}')).toThrow(/Expected "{{\/if}}"/);
+	});
+
+	it('rejects unknown blocks and helpers', () => {
+		expect(() => compileTemplate('{{#with a}}{{/with}}')).toThrow(/Unknown block/);
+		expect(() => compileTemplate('{{shout name}}')).toThrow(/Unknown helper "shout"/);
+	});
+
+	it('reports the line of the error', () => {
+		expect(() => compileTemplate('line one\n{{#if a}}')).toThrow(/line 2/);
+	});
+
+	it('rejects unterminated tags', () => {
+		expect(() => compileTemplate('{{name')).toThrow(/Unclosed tag/);
+	});
+});
+
+describe('DEFAULT_INCIDENT_TEMPLATE', () => {
+	it('compiles with the incident note helpers', () => {
+		expect(() => compileTemplate(DEFAULT_INCIDENT_TEMPLATE, INCIDENT_TEMPLATE_HELPERS)).not.toThrow();
+	});
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { buildCustomHeaders, normalizeBaseUrl, redactHeaders } from '../transport';
+
+describe('normalizeBaseUrl', () => {
+	it('trims whitespace and trailing slashes', () => {
+		expect(normalizeBaseUrl(' https://proxy.example.com/incident-io/ ')).toBe('https://proxy.example.com/incident-io');
+	});
+
+	it('accepts http for local servers', () => {
+		expect(normalizeBaseUrl('http://localhost:8080')).toBe('http://localhost:8080');
+	});
+
+	it('rejects values that are not http(s) URLs', () => {
+		expect(normalizeBaseUrl('api.incident.io')).toBeNull();
+		expect(normalizeBaseUrl('ftp://example.com')).toBeNull();
+		expect(normalizeBaseUrl('')).toBeNull();
+	});
+});
+
+describe('buildCustomHeaders', () => {
+	it('skips headers without a name', () => {
+		expect(buildCustomHeaders([
+			{ name: ' X-Proxy-Route ', value: 'incidents' },
+			{ name: '', value: 'ignored' },
+		])).toEqual({ 'X-Proxy-Route': 'incidents' });
+	});
+});
+
+describe('redactHeaders', () => {
+	it('hides credentials but keeps other headers', () => {
+		expect(redactHeaders({
+			'Authorization': 'Bearer secret-key',
+			'X-Api-Key': 'secret',
+			'Proxy-Authorization': 'Basic abc',
+			'Content-Type': 'application/json',
+		})).toEqual({
+			'Authorization': '[redacted]',
+			'X-Api-Key': '[redacted]',
+			'Proxy-Authorization': '[redacted]',
+			'Content-Type': 'application/json',
+		});
+	});
+});
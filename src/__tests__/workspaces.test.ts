@@ -0,0 +1,233 @@
+import { describe, it, expect } from 'vitest';
+import {
+	MAIN_WORKSPACE_ID,
+	createWorkspaceProfile,
+	getMainWorkspaceLabel,
+	getNoteWorkspaceId,
+	getSettingsForIncident,
+	getWorkspaceNotesFolder,
+	getWorkspaceSecretKey,
+	getWorkspaceSettings,
+	labelSyncResult,
+	mergeSyncResults,
+} from '../workspaces';
+import { DEFAULT_SETTINGS, FullIncident, IncidentIOSyncSettings, SECRET_KEY_API, SyncResult, WorkspaceProfile } from '../types';
+
+const createIncident = (overrides: Partial<FullIncident> = {}): FullIncident => ({
+	id: '123',
+	reference: 'INC-123',
+	name: 'Test Incident',
+	created_at: '2024-01-15T10:00:00Z',
+	status: 'Active',
+	statusCategory: 'live',
+	severity: 'High',
+	url: 'https://app.incident.io/incidents/INC-123',
+	roles: [],
+	customFields: [],
+	timestamps: [],
+	updates: [],
+	actions: [],
+	followUps: [],
+	attachments: [],
+	...overrides,
+});
+
+const createResult = (overrides: Partial<SyncResult> = {}): SyncResult => ({
+	onCall: null,
+	incidents: [],
+	fullIncidents: [],
+	...overrides,
+});
+
+const createSettings = (workspaces: WorkspaceProfile[]): IncidentIOSyncSettings => ({
+	...DEFAULT_SETTINGS,
+	workspaces,
+});
+
+describe('getWorkspaceSecretKey', () => {
+	it('keeps the existing key for the main workspace', () => {
+		expect(getWorkspaceSecretKey(MAIN_WORKSPACE_ID)).toBe(SECRET_KEY_API);
+	});
+
+	it('gives each additional workspace its own key', () => {
+		expect(getWorkspaceSecretKey('acme')).toBe(`${SECRET_KEY_API}-acme`);
+	});
+});
+
+describe('createWorkspaceProfile', () => {
+	it('derives an ID from the name', () => {
+		const profile = createWorkspaceProfile('Acme Corp', []);
+		expect(profile.id).toBe('acme-corp');
+		expect(profile.enabled).toBe(true);
+		expect(profile.roleFilter.roleTypes).toEqual(DEFAULT_SETTINGS.roleFilter.roleTypes);
+	});
+
+	it('never reuses an ID', () => {
+		const first = createWorkspaceProfile('Acme', []);
+		expect(createWorkspaceProfile('Acme', [first]).id).toBe('acme-2');
+		expect(createWorkspaceProfile('Main', []).id).toBe('main-2');
+	});
+});
+
+describe('getMainWorkspaceLabel', () => {
+	it('is null when the main workspace is the only one', () => {
+		const disabled = { ...createWorkspaceProfile('Acme', []), enabled: false };
+		expect(getMainWorkspaceLabel(createSettings([]))).toBeNull();
+		expect(getMainWorkspaceLabel(createSettings([disabled]))).toBeNull();
+	});
+
+	it('uses the main workspace name once another is enabled', () => {
+		const settings = { ...createSettings([createWorkspaceProfile('Acme', [])]), workspaceName: 'Initech' };
+		expect(getMainWorkspaceLabel(settings)).toEqual({ id: MAIN_WORKSPACE_ID, name: 'Initech' });
+	});
+});
+
+describe('getWorkspaceNotesFolder', () => {
+	it('uses the configured folder', () => {
+		const profile = { ...createWorkspaceProfile('Acme', []), incidentNotesFolder: 'Acme/Incidents' };
+		expect(getWorkspaceNotesFolder(createSettings([profile]), profile)).toBe('Acme/Incidents');
+	});
+
+	it('falls back to a subfolder of the main notes folder', () => {
+		const profile = createWorkspaceProfile('Acme', []);
+		expect(getWorkspaceNotesFolder(createSettings([profile]), profile)).toBe('Incidents/Acme');
+	});
+
+	it('never shares the main workspace\'s folder', () => {
+		const profile = { ...createWorkspaceProfile('Acme', []), incidentNotesFolder: 'Incidents/' };
+		expect(getWorkspaceNotesFolder(createSettings([profile]), profile)).toBe('Incidents/Acme');
+	});
+});
+
+describe('getWorkspaceSettings', () => {
+	it('applies the profile over the shared settings', () => {
+		const profile: WorkspaceProfile = {
+			...createWorkspaceProfile('Acme', []),
+			userId: 'U1',
+			userEmail: 'me@acme.test',
+			includeSubscribed: true,
+		};
+		const settings = {
+			...createSettings([profile]),
+			teamModeEnabled: true,
+			archiveRules: {
+				...DEFAULT_SETTINGS.archiveRules,
+				closed: { action: 'move' as const, folder: 'Archive' },
+			},
+		};
+
+		const workspaceSettings = getWorkspaceSettings(settings, profile);
+		expect(workspaceSettings.userId).toBe('U1');
+		expect(workspaceSettings.includeSubscribed).toBe(true);
+		expect(workspaceSettings.incidentNotesFolder).toBe('Incidents/Acme');
+		expect(workspaceSettings.apiBaseUrl).toBe(settings.apiBaseUrl);
+		expect(workspaceSettings.archiveRules.closed.folder).toBe('Archive/Acme');
+		expect(workspaceSettings.teamModeEnabled).toBe(false);
+		expect(workspaceSettings.workspaces).toEqual([]);
+	});
+
+	it('uses the profile\'s incident filters, not the main workspace\'s', () => {
+		const profile: WorkspaceProfile = {
+			...createWorkspaceProfile('Acme', []),
+			incidentFilters: {
+				...createWorkspaceProfile('Acme', []).incidentFilters,
+				severities: { include: ['SEV1'], exclude: [] },
+			},
+		};
+		const settings = createSettings([profile]);
+		settings.incidentFilters = {
+			...settings.incidentFilters,
+			incidentTypes: { include: [], exclude: ['Test'] },
+		};
+
+		const workspaceSettings = getWorkspaceSettings(settings, profile);
+		expect(workspaceSettings.incidentFilters.severities.include).toEqual(['SEV1']);
+		expect(workspaceSettings.incidentFilters.incidentTypes.exclude).toEqual([]);
+	});
+});
+
+describe('getSettingsForIncident', () => {
+	const profile = createWorkspaceProfile('Acme', []);
+	const settings = createSettings([profile]);
+
+	it('uses the workspace\'s notes folder for its incidents', () => {
+		const incident = createIncident({ workspace: { id: profile.id, name: 'Acme' } });
+		expect(getSettingsForIncident(settings, incident).incidentNotesFolder).toBe('Incidents/Acme');
+	});
+
+	it('uses the main settings for main and unlabelled incidents, and unknown workspaces', () => {
+		expect(getSettingsForIncident(settings, createIncident())).toBe(settings);
+		expect(getSettingsForIncident(settings, createIncident({ workspace: { id: MAIN_WORKSPACE_ID, name: 'Main' } }))).toBe(settings);
+		expect(getSettingsForIncident(settings, createIncident({ workspace: { id: 'gone', name: 'Gone' } }))).toBe(settings);
+	});
+});
+
+describe('getNoteWorkspaceId', () => {
+	const profile = createWorkspaceProfile('Acme', []);
+	const settings = createSettings([profile]);
+
+	it('is always the main workspace without other workspaces', () => {
+		expect(getNoteWorkspaceId(createSettings([]), 'Elsewhere/INC-1.md', undefined)).toBe(MAIN_WORKSPACE_ID);
+	});
+
+	it('goes by the workspace frontmatter first', () => {
+		expect(getNoteWorkspaceId(settings, 'Incidents/INC-1.md', { workspace: 'Acme' })).toBe(profile.id);
+		expect(getNoteWorkspaceId(settings, 'Incidents/Acme/INC-1.md', { workspace: 'Main' })).toBe(MAIN_WORKSPACE_ID);
+		expect(getNoteWorkspaceId(settings, 'Incidents/INC-1.md', { workspace: 'Gone' })).toBeNull();
+	});
+
+	it('otherwise uses the most specific notes or archive folder', () => {
+		expect(getNoteWorkspaceId(settings, 'Incidents/INC-1.md', {})).toBe(MAIN_WORKSPACE_ID);
+		expect(getNoteWorkspaceId(settings, 'Incidents/Acme/INC-1.md', {})).toBe(profile.id);
+
+		const archiving = {
+			...settings,
+			archiveRules: { ...settings.archiveRules, closed: { action: 'move' as const, folder: 'Archive' } },
+		};
+		expect(getNoteWorkspaceId(archiving, 'Archive/Acme/INC-1.md', {})).toBe(profile.id);
+		expect(getNoteWorkspaceId(archiving, 'Archive/INC-1.md', {})).toBe(MAIN_WORKSPACE_ID);
+	});
+
+	it('refuses to guess for notes outside every folder', () => {
+		expect(getNoteWorkspaceId(settings, 'Journal/INC-1.md', undefined)).toBeNull();
+	});
+});
+
+describe('labelSyncResult and mergeSyncResults', () => {
+	it('labels incidents and schedules, then merges them', () => {
+		const main = labelSyncResult(createResult({
+			onCall: { schedules: ['Primary'] },
+			fullIncidents: [createIncident()],
+		}), { id: MAIN_WORKSPACE_ID, name: 'Main' });
+		const acme = labelSyncResult(createResult({
+			fullIncidents: [createIncident({ id: '456' })],
+		}), { id: 'acme', name: 'Acme' });
+
+		const merged = mergeSyncResults([main, acme]);
+		expect(merged.onCall).toEqual({ schedules: ['Primary (Main)'] });
+		expect(merged.fullIncidents.map(incident => incident.workspace?.name)).toEqual(['Main', 'Acme']);
+	});
+
+	it('labels shifts and orders upcoming ones across workspaces', () => {
+		const shift = (start: string) => ({ schedule: 'Primary', start, end: start });
+		const main = labelSyncResult(createResult({
+			onCall: { schedules: [], shifts: [], upcoming: [shift('2024-02-01T09:00:00Z')] },
+		}), { id: MAIN_WORKSPACE_ID, name: 'Main' });
+		const acme = labelSyncResult(createResult({
+			onCall: { schedules: [], shifts: [], upcoming: [shift('2024-01-20T09:00:00Z')] },
+		}), { id: 'acme', name: 'Acme' });
+
+		expect(mergeSyncResults([main, acme]).onCall?.upcoming?.map(s => s.schedule))
+			.toEqual(['Primary (Acme)', 'Primary (Main)']);
+	});
+
+	it('has no on-call when no workspace has any', () => {
+		expect(mergeSyncResults([createResult(), createResult()]).onCall).toBeNull();
+	});
+
+	it('keeps team on-call entries', () => {
+		const team = [{ schedule: 'Primary', members: ['Alice'] }];
+		const merged = mergeSyncResults([createResult({ onCall: { schedules: [], team } }), createResult()]);
+		expect(merged.onCall).toEqual({ schedules: [], team });
+	});
+});
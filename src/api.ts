@@ -1,34 +1,153 @@
-import { requestUrl } from 'obsidian';
 import { logger } from './logger';
+import { HttpResponse, HttpTransport, RequestUrlTransport, buildCustomHeaders, getHeader, redactHeaders } from './transport';
+import { RequestScheduler, sleep } from './scheduler';
+import {
+	ApiError,
+	CancelledError,
+	ForbiddenError,
+	NotFoundError,
+	RateLimitedError,
+	createApiError,
+	createTransportError,
+	describeApiError,
+	throwIfAborted,
+} from './errors';
 import {
 	IncidentIOUser,
 	Incident,
 	IncidentsResponse,
+	PaginatedResponse,
 	UsersResponse,
+	UserResponse,
 	Schedule,
+	ScheduleEntry,
 	SchedulesResponse,
 	ScheduleEntriesResponse,
 	OnCallResult,
+	OnCallShift,
 	IncidentResult,
 	SyncResult,
 	FullIncident,
 	IncidentUpdate,
 	IncidentUpdatesResponse,
+	IncidentUpdateResponse,
+	NewIncidentUpdate,
+	IncidentResponse,
+	IncidentStatus,
+	IncidentStatusesResponse,
 	FollowUp,
 	FollowUpsResponse,
 	IncidentAction,
 	ActionsResponse,
+	ActionResponse,
+	FollowUpResponse,
 	IncidentAttachment,
 	AttachmentsResponse,
 	TimestampValuesResponse,
+	IncidentTimestampValue,
+	IncidentDetails,
+	RoleFilter,
+	CustomFieldFilter,
+	IncidentCustomField,
+	InclusionReason,
+	IncidentSubscriptionsResponse,
+	IncidentSubscription,
+	CatalogEntry,
+	CatalogEntryResponse,
+	TeamOnCall,
+	IncidentFilters,
+	IncidentSeverity,
+	IncidentStatusCategory,
+	IncidentType,
+	IncludeExcludeFilter,
+	SeveritiesResponse,
+	IncidentTypesResponse,
+	CustomField,
+	CustomFieldOption,
+	CustomFieldsResponse,
+	CustomFieldOptionsResponse,
+	NewIncident,
+	DEFAULT_SETTINGS,
+	IncidentIOSyncSettings,
 } from './types';
 
 export interface HistoricalSyncOptions {
 	days: number;
 }
 
-const API_BASE_V2 = 'https://api.incident.io/v2';
-const API_BASE_V1 = 'https://api.incident.io/v1';
+// The user whose incidents and on-call shifts are synced
+export type SyncUser = Pick<IncidentIOUser, 'id' | 'email'>;
+
+/**
+ * Details fetched by earlier syncs, so unchanged incidents can skip the
+ * per-incident requests. updatedAt is persisted; details are seeded from the
+ * cached result of the last sync.
+ */
+export interface IncidentDetailCache {
+	updatedAt: Record<string, string>;
+	details: Map<string, IncidentDetails>;
+}
+
+export interface SyncDataOptions {
+	historical?: HistoricalSyncOptions; // Omit to sync active incidents only
+	cache?: IncidentDetailCache;
+	roleFilter?: RoleFilter; // Defaults to the lead role only
+	includeSubscribed?: boolean; // Also sync incidents the user is subscribed to
+	customFieldFilters?: CustomFieldFilter[]; // Also sync incidents matching any of these
+	team?: IncidentIOUser[]; // Team mode: also sync incidents where these users hold a role
+	upcomingShifts?: number; // How many of the user's next on-call shifts to fetch
+	filters?: IncidentFilters; // Severity, type, status and custom field filters for every incident
+}
+
+// Everything besides roles that can make an incident the user's
+export interface InclusionOptions {
+	roleFilter?: RoleFilter;
+	teamMemberIds?: string[]; // Roles held by these users count too
+	subscribedIncidentIds?: Set<string>;
+	customFieldFilters?: CustomFieldFilter[];
+}
+
+// One API-side condition on listing incidents: <field>[one_of] and/or <field>[not_in]
+export interface IncidentListCondition {
+	oneOf?: string[];
+	notIn?: string[];
+}
+
+// Filters sent to the list incidents endpoint
+export interface IncidentListFilters {
+	createdAfter?: string; // YYYY-MM-DD
+	statusCategory?: IncidentListCondition;
+	severity?: IncidentListCondition; // Severity IDs
+	incidentType?: IncidentListCondition; // Incident type IDs
+}
+
+export interface IncidentIOAPIOptions {
+	apiBaseUrl?: string; // Defaults to https://api.incident.io
+	webBaseUrl?: string; // Defaults to https://app.incident.io
+	headers?: Record<string, string>; // Sent with every request
+	transport?: HttpTransport; // Defaults to Obsidian's requestUrl
+	maxConcurrentRequests?: number; // Defaults to 5
+}
+
+// Per-request options
+interface RequestOptions {
+	version?: 'v1' | 'v2';
+	method?: string;
+	body?: unknown;
+	headers?: Record<string, string>;
+	signal?: AbortSignal;
+}
+
+// Options for list requests that follow pagination cursors
+interface ListRequestOptions extends RequestOptions {
+	pageSize?: number; // Omitted for endpoints that don't accept page_size
+}
+
+/** One page of a list endpoint and the cursor for the next, if there is one */
+export interface Page<T> {
+	items: T[];
+	after?: string;
+}
 
 // Retry configuration
 const MAX_RETRIES = 5;
@@ -36,6 +155,18 @@ const INITIAL_BACKOFF_MS = 500;
 const MAX_BACKOFF_MS = 30000;
 const REQUEST_TIMEOUT_MS = 30000;
 
+// Pagination configuration
+const PAGE_SIZE = 250; // Max allowed by API
+const MAX_PAGES = 100; // Safety cap in case a cursor never runs out
+
+// How far around now to read schedule entries for on-call shifts
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ON_CALL_LOOKBACK_DAYS = 7;
+const ON_CALL_LOOKAHEAD_DAYS = 28;
+
+// Status categories synced in active-only mode unless the filters choose others
+export const ACTIVE_STATUS_CATEGORIES: IncidentStatusCategory[] = ['triage', 'live'];
+
 // Exported for testing
 export const BACKOFF_CONFIG = {
 	MAX_RETRIES,
@@ -69,11 +200,490 @@ export function calculateBackoff(
 	return addJitter(cappedMs);
 }
 
+// Exported for testing
+export const PAGINATION_CONFIG = {
+	PAGE_SIZE,
+	MAX_PAGES,
+} as const;
+
+/**
+ * Add page_size and the after cursor to an endpoint's query string.
+ * Exported for testing.
+ */
+export function buildPageUrl(endpoint: string, cursor?: string, pageSize?: number): string {
+	const params: string[] = [];
+	if (pageSize) {
+		params.push(`page_size=${pageSize}`);
+	}
+	if (cursor) {
+		params.push(`after=${encodeURIComponent(cursor)}`);
+	}
+	if (params.length === 0) {
+		return endpoint;
+	}
+	return `${endpoint}${endpoint.includes('?') ? '&' : '?'}${params.join('&')}`;
+}
+
+/**
+ * Fetch pages until there's no next cursor, a cursor repeats, or maxPages
+ * pages have been read. truncated is set if the cap stopped it early.
+ * Exported for testing.
+ */
+export async function collectPages<T>(
+	fetchPage: (cursor?: string) => Promise<Page<T>>,
+	maxPages: number = MAX_PAGES
+): Promise<{ items: T[]; truncated: boolean }> {
+	const items: T[] = [];
+	const seenCursors = new Set<string>();
+	let cursor: string | undefined;
+
+	for (let page = 0; page < maxPages; page++) {
+		const result = await fetchPage(cursor);
+		items.push(...result.items);
+
+		cursor = result.after || undefined;
+		if (!cursor || seenCursors.has(cursor)) {
+			return { items, truncated: false };
+		}
+		seenCursors.add(cursor);
+	}
+
+	return { items, truncated: true };
+}
+
+/**
+ * Users whose email or name contains the query, ignoring case. Exact email or
+ * name matches come first. Exported for testing.
+ */
+export function matchUsers(users: IncidentIOUser[], query: string): IncidentIOUser[] {
+	const lowerQuery = query.trim().toLowerCase();
+	if (!lowerQuery) {
+		return [];
+	}
+	const isExact = (user: IncidentIOUser) =>
+		(user.email || '').toLowerCase() === lowerQuery || (user.name || '').toLowerCase() === lowerQuery;
+	const matches = users.filter(user =>
+		(user.email || '').toLowerCase().includes(lowerQuery) ||
+		(user.name || '').toLowerCase().includes(lowerQuery)
+	);
+	return matches.filter(isExact).concat(matches.filter(user => !isExact(user)));
+}
+
+/**
+ * The user a legacy identifier refers to: the only match, or the only exact
+ * email or name match. Null if nobody matches or it's ambiguous.
+ * Exported for testing.
+ */
+export function resolveLegacyUser(matches: IncidentIOUser[], identifier: string): IncidentIOUser | null {
+	if (matches.length === 1) {
+		return matches[0];
+	}
+	const lowerIdentifier = identifier.trim().toLowerCase();
+	const exact = matches.filter(user =>
+		(user.email || '').toLowerCase() === lowerIdentifier ||
+		(user.name || '').toLowerCase() === lowerIdentifier
+	);
+	return exact.length === 1 ? exact[0] : null;
+}
+
+/**
+ * Whether the user holds a role on the incident that the filter includes.
+ * Exported for testing.
+ */
+export function matchesRoleFilter(
+	incident: Incident,
+	userId: string,
+	filter: RoleFilter = DEFAULT_SETTINGS.roleFilter
+): boolean {
+	const customRoleNames = filter.customRoleNames.map(name => name.trim().toLowerCase());
+	return (incident.incident_role_assignments || []).some(assignment => {
+		if (assignment?.assignee?.id !== userId || !assignment.role) {
+			return false;
+		}
+		const roleType = assignment.role.role_type || 'custom';
+		if (filter.roleTypes.includes(roleType)) {
+			return true;
+		}
+		return roleType === 'custom' && customRoleNames.includes((assignment.role.name || '').trim().toLowerCase());
+	});
+}
+
+/** The values selected in a custom field entry - several for multi-selects */
+export function getCustomFieldValues(entry: IncidentCustomField): string[] {
+	if (entry.value_text) {
+		return [entry.value_text];
+	}
+	if (entry.value_single_select?.value) {
+		return [entry.value_single_select.value];
+	}
+	return (entry.value_multi_select || []).map(option => option.value).filter(value => value);
+}
+
+/**
+ * Whether any of the incident's custom fields has a filter's value, ignoring
+ * case. Exported for testing.
+ */
+export function matchesCustomFieldFilters(incident: Incident, filters: CustomFieldFilter[]): boolean {
+	const active = filters.filter(filter => filter.fieldName.trim() && filter.value.trim());
+	if (active.length === 0) {
+		return false;
+	}
+	return (incident.custom_field_entries || []).some(entry => {
+		const fieldName = (entry?.custom_field?.name || '').toLowerCase();
+		const values = getCustomFieldValues(entry).map(value => value.toLowerCase());
+		return active.some(filter =>
+			filter.fieldName.trim().toLowerCase() === fieldName &&
+			values.includes(filter.value.trim().toLowerCase())
+		);
+	});
+}
+
+/**
+ * Every reason an incident should be synced for the user. Empty if it
+ * shouldn't be. Exported for testing.
+ */
+export function getInclusionReasons(incident: Incident, userId: string, options: InclusionOptions = {}): InclusionReason[] {
+	const reasons: InclusionReason[] = [];
+	const roleFilter = options.roleFilter || DEFAULT_SETTINGS.roleFilter;
+	const userIds = [userId].concat(options.teamMemberIds || []);
+
+	if (userIds.some(id => matchesRoleFilter(incident, id, roleFilter))) {
+		const leading = roleFilter.roleTypes.includes('lead') &&
+			(incident.incident_role_assignments || []).some(assignment =>
+				userIds.includes(assignment?.assignee?.id) && assignment.role?.role_type === 'lead'
+			);
+		reasons.push(leading ? 'lead' : 'role');
+	}
+	if (options.subscribedIncidentIds?.has(incident.id)) {
+		reasons.push('subscribed');
+	}
+	if (options.customFieldFilters && matchesCustomFieldFilters(incident, options.customFieldFilters)) {
+		reasons.push('custom_field');
+	}
+	return reasons;
+}
+
+/** Whether a value passes an include/exclude filter, ignoring case. Exported for testing. */
+export function matchesIncludeExclude(value: string, filter: IncludeExcludeFilter): boolean {
+	const normalize = (names: string[]) => names.map(name => name.trim().toLowerCase()).filter(name => name);
+	const lowerValue = value.trim().toLowerCase();
+	const include = normalize(filter.include);
+	if (include.length > 0 && !include.includes(lowerValue)) {
+		return false;
+	}
+	return !normalize(filter.exclude).includes(lowerValue);
+}
+
+/**
+ * Whether an incident passes the severity, incident type, status category and
+ * custom field filters. Exported for testing.
+ */
+export function matchesIncidentFilters(incident: Incident, filters: IncidentFilters): boolean {
+	if (!matchesIncludeExclude(incident.severity?.name || '', filters.severities)) {
+		return false;
+	}
+	if (!matchesIncludeExclude(incident.incident_type?.name || '', filters.incidentTypes)) {
+		return false;
+	}
+	if (!matchesIncludeExclude(incident.incident_status?.category || '', filters.statusCategories)) {
+		return false;
+	}
+	const { include, exclude } = filters.customFields;
+	const hasInclude = include.some(filter => filter.fieldName.trim() && filter.value.trim());
+	if (hasInclude && !matchesCustomFieldFilters(incident, include)) {
+		return false;
+	}
+	return !matchesCustomFieldFilters(incident, exclude);
+}
+
+/** Status categories an active-only sync fetches. Exported for testing. */
+export function getActiveStatusCategories(filters?: IncidentFilters): IncidentStatusCategory[] {
+	const include = filters?.statusCategories.include || [];
+	const exclude = filters?.statusCategories.exclude || [];
+	const categories = include.length > 0 ? include : ACTIVE_STATUS_CATEGORIES;
+	return categories.filter(category => !exclude.includes(category));
+}
+
+/** The status category condition for listing incidents. Exported for testing. */
+export function getStatusCategoryCondition(filters: IncidentFilters | undefined, activeOnly: boolean): IncidentListCondition {
+	if (activeOnly) {
+		return { oneOf: getActiveStatusCategories(filters) };
+	}
+	const include = filters?.statusCategories.include || [];
+	const exclude = filters?.statusCategories.exclude || [];
+	return include.length > 0
+		? { oneOf: include.filter(category => !exclude.includes(category)) }
+		: { notIn: exclude };
+}
+
+/**
+ * Turn a filter on names into a condition on IDs, ignoring case. Names that
+ * aren't found are dropped - no incident can have them anyway, and the local
+ * filter still applies. Exported for testing.
+ */
+export function resolveConditionIds(
+	filter: IncludeExcludeFilter,
+	options: Array<{ id: string; name: string }>
+): IncidentListCondition {
+	const idsFor = (names: string[]) => {
+		const lowerNames = names.map(name => name.trim().toLowerCase());
+		return options
+			.filter(option => lowerNames.includes((option.name || '').trim().toLowerCase()))
+			.map(option => option.id);
+	};
+	return { oneOf: idsFor(filter.include), notIn: idsFor(filter.exclude) };
+}
+
+/** Query string for the list incidents endpoint. Exported for testing. */
+export function buildIncidentListQuery(filters: IncidentListFilters): string {
+	const params = new URLSearchParams();
+	if (filters.createdAfter) {
+		params.set('created_at[gte]', filters.createdAfter);
+	}
+
+	const conditions: Array<[string, IncidentListCondition | undefined]> = [
+		['status_category', filters.statusCategory],
+		['severity', filters.severity],
+		['incident_type', filters.incidentType],
+	];
+	for (const [field, condition] of conditions) {
+		if (condition?.oneOf && condition.oneOf.length > 0) {
+			params.set(`${field}[one_of]`, condition.oneOf.join(','));
+		}
+		if (condition?.notIn && condition.notIn.length > 0) {
+			params.set(`${field}[not_in]`, condition.notIn.join(','));
+		}
+	}
+	return params.toString();
+}
+
+/** Request body for posting an update, leaving out anything that isn't changing. Exported for testing. */
+export function buildIncidentUpdateBody(incidentId: string, update: NewIncidentUpdate): Record<string, string> {
+	const body: Record<string, string> = { incident_id: incidentId };
+	if (update.message.trim()) {
+		body.message = update.message.trim();
+	}
+	if (update.statusId) {
+		body.new_incident_status_id = update.statusId;
+	}
+	if (update.severityId) {
+		body.new_severity_id = update.severityId;
+	}
+	return body;
+}
+
+/**
+ * Request body for declaring an incident. The idempotency key stops a retried
+ * submission from declaring it twice. Exported for testing.
+ */
+export function buildCreateIncidentBody(
+	incident: NewIncident,
+	fields: CustomField[],
+	idempotencyKey: string
+): Record<string, unknown> {
+	const body: Record<string, unknown> = {
+		idempotency_key: idempotencyKey,
+		name: incident.name.trim(),
+		severity_id: incident.severityId,
+		visibility: 'public',
+	};
+	if (incident.summary.trim()) {
+		body.summary = incident.summary.trim();
+	}
+	if (incident.incidentTypeId) {
+		body.incident_type_id = incident.incidentTypeId;
+	}
+
+	const entries: Array<{ custom_field_id: string; values: Array<Record<string, string>> }> = [];
+	for (const field of fields) {
+		const value = (incident.customFieldValues[field.id] || '').trim();
+		if (!value) {
+			continue;
+		}
+		let entry: Record<string, string>;
+		switch (field.field_type) {
+			case 'single_select':
+			case 'multi_select':
+				entry = { value_option_id: value };
+				break;
+			case 'numeric':
+				entry = { value_numeric: value };
+				break;
+			case 'link':
+				entry = { value_link: value };
+				break;
+			default:
+				entry = { value_text: value };
+		}
+		entries.push({ custom_field_id: field.id, values: [entry] });
+	}
+	if (entries.length > 0) {
+		body.custom_field_entries = entries;
+	}
+	return body;
+}
+
+/** Every literal value in a catalog entry's attributes, such as the user IDs of a team's members */
+export function getCatalogEntryLiterals(entry: CatalogEntry): string[] {
+	const literals: string[] = [];
+	const attributeValues = entry.attribute_values || {};
+	for (const attributeId of Object.keys(attributeValues)) {
+		const attribute = attributeValues[attributeId];
+		const values = attribute?.array_value || (attribute?.value ? [attribute.value] : []);
+		for (const value of values) {
+			if (value?.literal) {
+				literals.push(value.literal);
+			}
+		}
+	}
+	return literals;
+}
+
+/** Whether a schedule entry or shift covers the given moment */
+function coversTime(start: string, end: string, at: number): boolean {
+	return new Date(start).getTime() <= at && at < new Date(end).getTime();
+}
+
+/**
+ * The user's shifts on one schedule, from its final entries. Back-to-back
+ * entries are joined into one shift. Whoever's entry ends as a shift starts
+ * hands over to the user, and whoever's starts as it ends takes over.
+ * Exported for testing.
+ */
+export function summarizeShifts(schedule: string, entries: ScheduleEntry[], userEmail: string): OnCallShift[] {
+	const email = userEmail.toLowerCase();
+	const time = (value: string) => new Date(value).getTime();
+	const isMine = (entry: ScheduleEntry) => (entry.user?.email || '').toLowerCase() === email;
+	const mine = entries.filter(isMine).sort((a, b) => time(a.start_at) - time(b.start_at));
+	const others = entries.filter(entry => entry.user && !isMine(entry));
+
+	const shifts: OnCallShift[] = [];
+	for (const entry of mine) {
+		const last = shifts[shifts.length - 1];
+		if (last && time(entry.start_at) <= time(last.end)) {
+			if (time(entry.end_at) > time(last.end)) {
+				last.end = entry.end_at;
+			}
+			continue;
+		}
+		shifts.push({ schedule, start: entry.start_at, end: entry.end_at });
+	}
+
+	// Names of the other people whose entries start or end at a moment
+	const namesAt = (edge: (entry: ScheduleEntry) => string, at: string) => {
+		const names: string[] = [];
+		for (const entry of others) {
+			if (time(edge(entry)) === time(at) && !names.includes(entry.user.name)) {
+				names.push(entry.user.name);
+			}
+		}
+		return names.join(', ');
+	};
+	for (const shift of shifts) {
+		const from = namesAt(entry => entry.end_at, shift.start);
+		const to = namesAt(entry => entry.start_at, shift.end);
+		if (from) {
+			shift.handoverFrom = from;
+		}
+		if (to) {
+			shift.handoverTo = to;
+		}
+	}
+	return shifts;
+}
+
+/**
+ * Split shifts into those happening now and the next few to come, soonest
+ * first. Exported for testing.
+ */
+export function splitShifts(
+	shifts: OnCallShift[],
+	now: Date,
+	upcomingCount: number
+): { current: OnCallShift[]; upcoming: OnCallShift[] } {
+	const at = now.getTime();
+	const current = shifts.filter(shift => coversTime(shift.start, shift.end, at));
+	const upcoming = shifts
+		.filter(shift => new Date(shift.start).getTime() > at)
+		.sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime())
+		.slice(0, Math.max(0, upcomingCount));
+	return { current, upcoming };
+}
+
+/**
+ * Who from the team is on call for each schedule, from each schedule's
+ * current entries. Schedules with nobody from the team are left out.
+ * Exported for testing.
+ */
+export function summarizeTeamOnCall(
+	scheduleEntries: Array<{ schedule: string; entries: ScheduleEntry[] }>,
+	team: IncidentIOUser[]
+): TeamOnCall[] {
+	const teamIds = new Set(team.map(member => member.id));
+	const teamEmails = new Set(team.map(member => (member.email || '').toLowerCase()).filter(email => email));
+
+	const summary: TeamOnCall[] = [];
+	for (const { schedule, entries } of scheduleEntries) {
+		const members: string[] = [];
+		for (const entry of entries) {
+			const user = entry.user;
+			const inTeam = user && (teamIds.has(user.id) || teamEmails.has((user.email || '').toLowerCase()));
+			if (inTeam && !members.includes(user.name)) {
+				members.push(user.name);
+			}
+		}
+		if (members.length > 0) {
+			summary.push({ schedule, members });
+		}
+	}
+	return summary;
+}
+
+/** API client options from the plugin settings */
+export function apiOptionsFromSettings(settings: IncidentIOSyncSettings): IncidentIOAPIOptions {
+	return {
+		apiBaseUrl: settings.apiBaseUrl,
+		webBaseUrl: settings.webBaseUrl,
+		headers: buildCustomHeaders(settings.customHeaders || []),
+		maxConcurrentRequests: settings.maxConcurrentRequests,
+	};
+}
+
+/**
+ * Whether an incident's details need fetching: it's new, it has changed since
+ * the details were fetched, or we have no cached details for it.
+ * Exported for testing.
+ */
+export function shouldFetchDetails(incident: Incident, cache: IncidentDetailCache): boolean {
+	if (!incident.updated_at || !cache.details.has(incident.id)) {
+		return true;
+	}
+	return cache.updatedAt[incident.id] !== incident.updated_at;
+}
+
 export class IncidentIOAPI {
 	private apiKey: string;
-
-	constructor(apiKey: string) {
+	private apiBaseUrl: string;
+	private webBaseUrl: string;
+	private headers: Record<string, string>;
+	private transport: HttpTransport;
+	// Shared by every request this client makes
+	private scheduler: RequestScheduler;
+
+	constructor(apiKey: string, options: IncidentIOAPIOptions = {}) {
 		this.apiKey = apiKey;
+		this.apiBaseUrl = (options.apiBaseUrl || DEFAULT_SETTINGS.apiBaseUrl).replace(/\/+$/, '');
+		this.webBaseUrl = (options.webBaseUrl || DEFAULT_SETTINGS.webBaseUrl).replace(/\/+$/, '');
+		this.headers = options.headers || {};
+		this.transport = options.transport || new RequestUrlTransport();
+		this.scheduler = new RequestScheduler({
+			maxConcurrent: options.maxConcurrentRequests || DEFAULT_SETTINGS.maxConcurrentRequests,
+		});
+	}
+
+	/** Link to an incident in the incident.io web app */
+	incidentUrl(reference: string): string {
+		return `${this.webBaseUrl}/incidents/${reference}`;
 	}
 
 	// Add jitter to prevent thundering herd
@@ -89,64 +699,117 @@ export class IncidentIOAPI {
 		return calculateBackoff(attempt, retryAfterHeader, this.addJitter.bind(this));
 	}
 
-	private async request<T>(endpoint: string, version: 'v1' | 'v2' = 'v2'): Promise<T> {
-		const baseUrl = version === 'v1' ? API_BASE_V1 : API_BASE_V2;
-		const url = `${baseUrl}${endpoint}`;
+	private async request<T>(endpoint: string, options: RequestOptions = {}): Promise<T> {
+		const endpointPath = `/${options.version || 'v2'}${endpoint}`;
+		const url = `${this.apiBaseUrl}${endpointPath}`;
+		const method = options.method || 'GET';
+		const headers: Record<string, string> = {
+			...this.headers,
+			...options.headers,
+			// Set last so custom headers can't replace them
+			'Authorization': `Bearer ${this.apiKey}`,
+			'Content-Type': 'application/json',
+		};
+
+		// A POST that failed without an answer may still have been applied, so
+		// only rate limited ones (which never were) are retried
+		const canRetry = (error: ApiError) => error.retryable && (method !== 'POST' || error instanceof RateLimitedError);
 
-		let lastError: Error | null = null;
+		let lastError: ApiError | null = null;
 
 		for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
+			throwIfAborted(options.signal);
+
+			// Only errors that might go away are retried (rate limits, 5xx, network, timeouts).
+			// Rate limits are waited out by the scheduler, which holds back every request.
+			if (lastError && !(lastError instanceof RateLimitedError)) {
+				const backoffMs = this.calculateBackoff(attempt - 1);
+				logger.debug(`${lastError.name}, retrying in ${backoffMs}ms (attempt ${attempt + 1}/${MAX_RETRIES})`);
+				await this.delay(backoffMs, options.signal);
+			}
+
+			let response: HttpResponse;
 			try {
-				const response = await requestUrl({
-					url,
-					method: 'GET',
-					headers: {
-						'Authorization': `Bearer ${this.apiKey}`,
-						'Content-Type': 'application/json',
-					},
-					throw: false, // Don't throw on non-2xx, we'll handle it
-					timeout: REQUEST_TIMEOUT_MS,
-				});
-
-				// Success
-				if (response.status >= 200 && response.status < 300) {
-					return response.json as T;
+				response = await this.scheduler.schedule(() => {
+					// Never log the headers unredacted - they contain the API key
+					logger.debug(`${method} ${url}`, redactHeaders(headers));
+					return this.transport.request({
+						url,
+						method,
+						headers,
+						body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+						timeout: REQUEST_TIMEOUT_MS,
+						signal: options.signal,
+					});
+				}, options.signal);
+			} catch (error) {
+				if (error instanceof CancelledError) {
+					throw error;
 				}
-
-				// Rate limited - retry with backoff
-				if (response.status === 429) {
-					const retryAfter = response.headers?.['retry-after'];
-					const backoffMs = this.calculateBackoff(attempt, retryAfter);
-					logger.debug(`Rate limited (429), retrying in ${backoffMs}ms (attempt ${attempt + 1}/${MAX_RETRIES})`);
-					await this.delay(backoffMs);
-					continue;
+				lastError = createTransportError(error, endpointPath);
+				if (!canRetry(lastError)) {
+					throw lastError;
 				}
+				continue;
+			}
 
-				// Server errors (5xx) - retry with backoff
-				if (response.status >= 500) {
-					const backoffMs = this.calculateBackoff(attempt);
-					logger.debug(`Server error (${response.status}), retrying in ${backoffMs}ms (attempt ${attempt + 1}/${MAX_RETRIES})`);
-					await this.delay(backoffMs);
-					continue;
-				}
+			// requestUrl can't be interrupted, so drop the response if we were cancelled meanwhile
+			throwIfAborted(options.signal);
 
-				// Client errors (4xx except 429) - don't retry, throw immediately
-				throw new Error(`API request failed with status ${response.status}: ${url}`);
+			// Success
+			if (response.status >= 200 && response.status < 300) {
+				this.scheduler.onSuccess();
+				return response.json() as T;
+			}
 
-			} catch (error) {
-				// Network errors - retry with backoff
-				if (error instanceof Error && !error.message.includes('API request failed')) {
-					lastError = error;
-					const backoffMs = this.calculateBackoff(attempt);
-					logger.debug(`Network error, retrying in ${backoffMs}ms (attempt ${attempt + 1}/${MAX_RETRIES})`);
-					await this.delay(backoffMs);
-					continue;
-				}
+			const body = this.parseErrorBody(response);
+			const error = createApiError(response.status, endpointPath, {
+				requestId: getHeader(response.headers, 'x-request-id')
+					?? (typeof body?.request_id === 'string' ? body.request_id : undefined),
+				retryAfter: getHeader(response.headers, 'retry-after'),
+				body,
+			});
+			if (!canRetry(error)) {
 				throw error;
 			}
+			if (error instanceof RateLimitedError) {
+				const pauseMs = this.calculateBackoff(attempt, error.retryAfter);
+				logger.debug(`Rate limited (429), pausing all requests for ${pauseMs}ms (attempt ${attempt + 1}/${MAX_RETRIES})`);
+				this.scheduler.onRateLimited(pauseMs);
+			}
+			lastError = error;
 		}
 
-		throw lastError || new Error(`Max retries (${MAX_RETRIES}) exceeded for: ${url}`);
+		throw lastError || new ApiError(`Max retries (${MAX_RETRIES}) exceeded`, endpointPath);
+	}
+
+	/** Request every page of a list endpoint and concatenate the items */
+	private async requestAllPages<R extends PaginatedResponse, T>(
+		endpoint: string,
+		getItems: (response: R) => T[] | undefined,
+		options: ListRequestOptions = {}
+	): Promise<T[]> {
+		const { pageSize, ...requestOptions } = options;
+		const { items, truncated } = await collectPages<T>(async (cursor) => {
+			const response = await this.request<R>(buildPageUrl(endpoint, cursor, pageSize), requestOptions);
+			return { items: getItems(response) || [], after: response.pagination_meta?.after };
+		});
+
+		if (truncated) {
+			logger.warn(`Stopped after ${MAX_PAGES} pages of ${endpoint} - results are incomplete`);
+		}
+		logger.debug(`Fetched ${items.length} items from ${endpoint}`);
+		return items;
+	}
+
+	// Error responses are usually JSON, but a proxy may return anything
+	private parseErrorBody(response: HttpResponse): Record<string, unknown> | undefined {
+		try {
+			const body = response.json();
+			return body && typeof body === 'object' ? body as Record<string, unknown> : undefined;
+		} catch {
+			return undefined;
+		}
 	}
 
 	async testConnection(): Promise<{ success: boolean; error?: string; user?: IncidentIOUser }> {
@@ -157,40 +820,58 @@ export class IncidentIOAPI {
 			}
 			return { success: false, error: 'No users found in response' };
 		} catch (error) {
-			const message = error instanceof Error ? error.message : 'Unknown error';
-			return { success: false, error: message };
+			return { success: false, error: describeApiError(error) };
 		}
 	}
 
-	async getUsers(): Promise<IncidentIOUser[]> {
-		const response = await this.request<UsersResponse>('/users');
-		return response.users || [];
+	async getUsers(signal?: AbortSignal): Promise<IncidentIOUser[]> {
+		return this.requestAllPages<UsersResponse, IncidentIOUser>(
+			'/users',
+			response => response.users,
+			{ pageSize: PAGE_SIZE, signal }
+		);
 	}
 
-	async findUser(identifier: string): Promise<IncidentIOUser | null> {
-		const users = await this.getUsers();
-		const lowerIdentifier = identifier.toLowerCase();
-		return users.find(u =>
-			u.email.toLowerCase().includes(lowerIdentifier) ||
-			u.name.toLowerCase().includes(lowerIdentifier)
-		) || null;
+	async getUser(userId: string, signal?: AbortSignal): Promise<IncidentIOUser> {
+		const response = await this.request<UserResponse>(`/users/${encodeURIComponent(userId)}`, { signal });
+		return response.user;
 	}
 
-	async getActiveIncidents(): Promise<Incident[]> {
-		const response = await this.request<IncidentsResponse>('/incidents');
-		return (response.incidents || []).filter(
-			inc => inc.incident_status.category === 'live' ||
-				inc.incident_status.category === 'triage'
-		);
+	// Every user whose email or name contains the identifier - see matchUsers
+	async findUsers(identifier: string, signal?: AbortSignal): Promise<IncidentIOUser[]> {
+		return matchUsers(await this.getUsers(signal), identifier);
 	}
 
-	async getUserIncidents(userId: string): Promise<Incident[]> {
-		const incidents = await this.getActiveIncidents();
-		return incidents.filter(inc =>
-			(inc.incident_role_assignments || []).some(
-				role => role?.assignee?.id === userId && role?.role?.role_type === 'lead'
-			)
-		);
+	/** Search for users to choose from in settings */
+	async searchUsers(query: string, signal?: AbortSignal): Promise<IncidentIOUser[]> {
+		// The API can look up a full email directly, without listing everyone
+		if (/^[^@\s]+@[^@\s]+$/.test(query.trim())) {
+			const response = await this.request<UsersResponse>(
+				`/users?email=${encodeURIComponent(query.trim())}`,
+				{ signal }
+			);
+			if (response.users && response.users.length > 0) {
+				return response.users;
+			}
+		}
+		return this.findUsers(query, signal);
+	}
+
+	async getActiveIncidents(filters?: IncidentFilters, signal?: AbortSignal): Promise<Incident[]> {
+		const categories = getActiveStatusCategories(filters);
+		if (categories.length === 0) {
+			return [];
+		}
+		const incidents = await this.getAllIncidentsPaginated({
+			statusCategory: { oneOf: categories },
+			...await this.getFilterConditions(filters, signal),
+		}, signal);
+		return incidents.filter(inc => categories.includes(inc.incident_status.category));
+	}
+
+	async getUserIncidents(userId: string, roleFilter?: RoleFilter, signal?: AbortSignal): Promise<Incident[]> {
+		const incidents = await this.getActiveIncidents(undefined, signal);
+		return incidents.filter(inc => matchesRoleFilter(inc, userId, roleFilter));
 	}
 
 	private formatDateForApi(date: Date): string {
@@ -201,85 +882,152 @@ export class IncidentIOAPI {
 		return `${year}-${month}-${day}`;
 	}
 
-	async getAllIncidentsPaginated(filters?: { createdAfter?: Date; activeOnly?: boolean }): Promise<Incident[]> {
-		const allIncidents: Incident[] = [];
-		let cursor: string | undefined;
-		const pageSize = 250; // Max allowed by API
+	async getAllIncidentsPaginated(filters: IncidentListFilters = {}, signal?: AbortSignal): Promise<Incident[]> {
+		const query = buildIncidentListQuery(filters);
+		return this.requestAllPages<IncidentsResponse, Incident>(
+			query ? `/incidents?${query}` : '/incidents',
+			response => response.incidents,
+			{ pageSize: PAGE_SIZE, signal }
+		);
+	}
 
-		// Build filter params
-		const params = new URLSearchParams();
-		params.set('page_size', String(pageSize));
+	async getUserIncidentsWithHistory(
+		userId: string,
+		options?: HistoricalSyncOptions,
+		roleFilter?: RoleFilter,
+		signal?: AbortSignal
+	): Promise<Incident[]> {
+		const allIncidents = await this.getIncidentsInWindow(options, undefined, signal);
 
-		if (filters?.createdAfter) {
-			params.set('created_at[gte]', this.formatDateForApi(filters.createdAfter));
-		}
+		// Filter to incidents where user holds one of the chosen roles
+		const userIncidents = allIncidents.filter(inc => matchesRoleFilter(inc, userId, roleFilter));
 
-		if (filters?.activeOnly) {
-			params.set('status_category[one_of]', 'live,triage');
-		}
+		logger.debug(`${userIncidents.length} incidents involve user`);
 
-		const baseUrl = `/incidents?${params.toString()}`;
+		return userIncidents;
+	}
 
-		do {
-			let url = baseUrl;
-			if (cursor) {
-				url += `&after=${encodeURIComponent(cursor)}`;
-			}
+	// Every incident in the sync window: created in the last N days, or active
+	async getIncidentsInWindow(
+		options?: HistoricalSyncOptions,
+		incidentFilters?: IncidentFilters,
+		signal?: AbortSignal
+	): Promise<Incident[]> {
+		if (!options?.days) {
+			// Active only: filter by status at API level
+			return this.getActiveIncidents(incidentFilters, signal);
+		}
 
-			const response = await this.request<IncidentsResponse & { pagination_meta?: { after?: string } }>(url);
+		// Historical sync: filter by date
+		const cutoffDate = new Date();
+		cutoffDate.setDate(cutoffDate.getDate() - options.days);
+		const filters: IncidentListFilters = {
+			createdAfter: this.formatDateForApi(cutoffDate),
+			statusCategory: getStatusCategoryCondition(incidentFilters, false),
+			...await this.getFilterConditions(incidentFilters, signal),
+		};
 
-			const incidents = response.incidents || [];
-			allIncidents.push(...incidents);
+		// Fetch incidents with API-level filtering
+		const allIncidents = await this.getAllIncidentsPaginated(filters, signal);
 
-			logger.debug(`Fetched page with ${incidents.length} incidents (total: ${allIncidents.length})`);
+		logger.debug(`Fetched ${allIncidents.length} incidents from API`);
 
-			// Get cursor for next page
-			cursor = response.pagination_meta?.after;
+		return allIncidents;
+	}
 
-			// Safety: stop if we got fewer results than page size (last page)
-			if (incidents.length < pageSize) {
-				break;
-			}
-		} while (cursor);
+	async getIncident(incidentId: string, signal?: AbortSignal): Promise<Incident> {
+		const response = await this.request<IncidentResponse>(`/incidents/${encodeURIComponent(incidentId)}`, { signal });
+		return response.incident;
+	}
 
-		return allIncidents;
+	async getIncidentStatuses(signal?: AbortSignal): Promise<IncidentStatus[]> {
+		const response = await this.request<IncidentStatusesResponse>('/incident_statuses', { version: 'v1', signal });
+		return response.incident_statuses || [];
 	}
 
-	async getUserIncidentsWithHistory(
-		userId: string,
-		options?: HistoricalSyncOptions
-	): Promise<Incident[]> {
-		// Build API filters
-		const filters: { createdAfter?: Date; activeOnly?: boolean } = {};
-
-		if (options?.days) {
-			// Historical sync: filter by date
-			const cutoffDate = new Date();
-			cutoffDate.setDate(cutoffDate.getDate() - options.days);
-			filters.createdAfter = cutoffDate;
-		} else {
-			// Active only: filter by status at API level
-			filters.activeOnly = true;
-		}
+	async getSeverities(signal?: AbortSignal): Promise<IncidentSeverity[]> {
+		const response = await this.request<SeveritiesResponse>('/severities', { version: 'v1', signal });
+		return response.severities || [];
+	}
 
-		// Fetch incidents with API-level filtering
-		const allIncidents = await this.getAllIncidentsPaginated(filters);
+	async getIncidentTypes(signal?: AbortSignal): Promise<IncidentType[]> {
+		const response = await this.request<IncidentTypesResponse>('/incident_types', { version: 'v1', signal });
+		return response.incident_types || [];
+	}
 
-		logger.debug(`Fetched ${allIncidents.length} incidents from API`);
+	/** Custom fields that must be filled in to declare an incident, with the options for select fields */
+	async getRequiredCustomFields(signal?: AbortSignal): Promise<CustomField[]> {
+		const response = await this.request<CustomFieldsResponse>('/custom_fields', { signal });
+		const required = (response.custom_fields || []).filter(field => field.required === 'always');
+		for (const field of required) {
+			if (field.field_type === 'single_select' || field.field_type === 'multi_select') {
+				field.options = await this.requestAllPages<CustomFieldOptionsResponse, CustomFieldOption>(
+					`/custom_field_options?custom_field_id=${encodeURIComponent(field.id)}`,
+					page => page.custom_field_options,
+					{ version: 'v1', pageSize: PAGE_SIZE, signal }
+				);
+			}
+		}
+		return required;
+	}
 
-		// Filter to incidents where user has ANY role assignment
-		const userIncidents = allIncidents.filter(inc =>
-			(inc.incident_role_assignments || []).some(
-				role => role?.assignee?.id === userId
-			)
-		);
+	/**
+	 * Severity and incident type conditions for listing incidents. The API
+	 * filters by ID, so names are looked up first; if they can't be, the
+	 * filters are only applied locally.
+	 */
+	private async getFilterConditions(
+		filters: IncidentFilters | undefined,
+		signal?: AbortSignal
+	): Promise<Pick<IncidentListFilters, 'severity' | 'incidentType'>> {
+		if (!filters) {
+			return {};
+		}
+		const hasNames = (filter: IncludeExcludeFilter) => filter.include.length > 0 || filter.exclude.length > 0;
 
-		logger.debug(`${userIncidents.length} incidents involve user`);
+		try {
+			const [severities, incidentTypes] = await Promise.all([
+				hasNames(filters.severities) ? this.getSeverities(signal) : Promise.resolve(null),
+				hasNames(filters.incidentTypes) ? this.getIncidentTypes(signal) : Promise.resolve(null),
+			]);
+			return {
+				...(severities ? { severity: resolveConditionIds(filters.severities, severities) } : {}),
+				...(incidentTypes ? { incidentType: resolveConditionIds(filters.incidentTypes, incidentTypes) } : {}),
+			};
+		} catch (error) {
+			if (!(error instanceof NotFoundError || error instanceof ForbiddenError)) {
+				throw error;
+			}
+			logger.warn(`Can't look up severities or incident types, filtering locally: ${describeApiError(error)}`);
+			return {};
+		}
+	}
 
-		return userIncidents;
+	/**
+	 * IDs of incidents the user is subscribed to. Empty if the API key can't
+	 * list subscriptions, so the rest of the sync still goes ahead.
+	 */
+	async getSubscribedIncidentIds(userId: string, signal?: AbortSignal): Promise<Set<string>> {
+		try {
+			const subscriptions = await this.requestAllPages<IncidentSubscriptionsResponse, IncidentSubscription>(
+				`/incident_subscriptions?user_id=${encodeURIComponent(userId)}`,
+				response => response.incident_subscriptions,
+				{ pageSize: PAGE_SIZE, signal }
+			);
+			return new Set(subscriptions
+				.filter(subscription => !subscription.user_id || subscription.user_id === userId)
+				.map(subscription => subscription.incident_id));
+		} catch (error) {
+			if (!(error instanceof NotFoundError || error instanceof ForbiddenError)) {
+				throw error;
+			}
+			logger.warn(`Can't list incident subscriptions: ${describeApiError(error)}`);
+			return new Set();
+		}
 	}
 
-	buildBasicFullIncident(incident: Incident, userId: string): FullIncident {
+	/** Team member IDs mark their roles with isTeamMember (team mode) */
+	buildBasicFullIncident(incident: Incident, userId: string, teamMemberIds?: Set<string>): FullIncident {
 		const roles = (incident.incident_role_assignments || [])
 			.filter(assignment => assignment?.role && assignment?.assignee)
 			.map(assignment => ({
@@ -287,6 +1035,7 @@ export class IncidentIOAPI {
 				roleType: assignment.role.role_type || 'custom',
 				assignee: assignment.assignee.name || 'Unknown',
 				isUser: assignment.assignee.id === userId,
+				...(teamMemberIds ? { isTeamMember: teamMemberIds.has(assignment.assignee.id) } : {}),
 			}));
 
 		const statusCategory = incident.incident_status?.category || 'closed';
@@ -294,20 +1043,10 @@ export class IncidentIOAPI {
 		// Parse custom fields
 		const customFields = (incident.custom_field_entries || [])
 			.filter(entry => entry?.custom_field?.name)
-			.map(entry => {
-				let value = '';
-				if (entry.value_text) {
-					value = entry.value_text;
-				} else if (entry.value_single_select?.value) {
-					value = entry.value_single_select.value;
-				} else if (entry.value_multi_select?.length) {
-					value = entry.value_multi_select.map(v => v.value).join(', ');
-				}
-				return {
-					name: entry.custom_field.name,
-					value,
-				};
-			})
+			.map(entry => ({
+				name: entry.custom_field.name,
+				value: getCustomFieldValues(entry).join(', '),
+			}))
 			.filter(field => field.value); // Only include fields with values
 
 		// Calculate duration if closed
@@ -330,8 +1069,13 @@ export class IncidentIOAPI {
 			statusCategory,
 			severity: incident.severity?.name || 'Unknown',
 			incidentType: incident.incident_type?.name,
-			url: `https://app.incident.io/incidents/${incident.reference}`,
+			url: this.incidentUrl(incident.reference),
 			durationMinutes,
+			mergedInto: incident.merged_into_incident ? {
+				id: incident.merged_into_incident.id,
+				reference: incident.merged_into_incident.reference,
+				url: this.incidentUrl(incident.merged_into_incident.reference),
+			} : undefined,
 			roles,
 			customFields,
 			timestamps: [],
@@ -342,24 +1086,20 @@ export class IncidentIOAPI {
 		};
 	}
 
-	// Check if error is a 404 (endpoint not available)
-	private is404Error(error: unknown): boolean {
-		if (error instanceof Error) {
-			return error.message.includes('404') || error.message.includes('status 404');
-		}
-		return false;
-	}
-
 	// Fetch incident updates (timeline)
-	async getIncidentUpdates(incidentId: string): Promise<IncidentUpdate[]> {
+	async getIncidentUpdates(incidentId: string, signal?: AbortSignal): Promise<IncidentUpdate[]> {
 		try {
-			const response = await this.request<IncidentUpdatesResponse>(
-				`/incident_updates?incident_id=${incidentId}`
+			return await this.requestAllPages<IncidentUpdatesResponse, IncidentUpdate>(
+				`/incident_updates?incident_id=${incidentId}`,
+				response => response.incident_updates,
+				{ pageSize: PAGE_SIZE, signal }
 			);
-			return response.incident_updates || [];
 		} catch (error) {
+			if (error instanceof CancelledError) {
+				throw error;
+			}
 			// Only log non-404 errors (404 means endpoint not available)
-			if (!this.is404Error(error)) {
+			if (!(error instanceof NotFoundError)) {
 				logger.error('Error fetching updates for incident', error);
 			}
 			return [];
@@ -367,14 +1107,19 @@ export class IncidentIOAPI {
 	}
 
 	// Fetch follow-ups
-	async getIncidentFollowUps(incidentId: string): Promise<FollowUp[]> {
+	async getIncidentFollowUps(incidentId: string, signal?: AbortSignal): Promise<FollowUp[]> {
 		try {
-			const response = await this.request<FollowUpsResponse>(
-				`/follow_ups?incident_id=${incidentId}`
+			const followUps = await this.requestAllPages<FollowUpsResponse, FollowUp>(
+				`/follow_ups?incident_id=${incidentId}`,
+				response => response.follow_ups,
+				{ signal }
 			);
-			return (response.follow_ups || []).filter(fu => fu.status !== 'deleted');
+			return followUps.filter(fu => fu.status !== 'deleted');
 		} catch (error) {
-			if (!this.is404Error(error)) {
+			if (error instanceof CancelledError) {
+				throw error;
+			}
+			if (!(error instanceof NotFoundError)) {
 				logger.error('Error fetching follow-ups for incident', error);
 			}
 			return [];
@@ -382,30 +1127,104 @@ export class IncidentIOAPI {
 	}
 
 	// Fetch actions
-	async getIncidentActions(incidentId: string): Promise<IncidentAction[]> {
+	async getIncidentActions(incidentId: string, signal?: AbortSignal): Promise<IncidentAction[]> {
 		try {
-			const response = await this.request<ActionsResponse>(
-				`/actions?incident_id=${incidentId}`
+			const actions = await this.requestAllPages<ActionsResponse, IncidentAction>(
+				`/actions?incident_id=${incidentId}`,
+				response => response.actions,
+				{ signal }
 			);
-			return (response.actions || []).filter(a => a.status !== 'deleted');
+			return actions.filter(a => a.status !== 'deleted');
 		} catch (error) {
-			if (!this.is404Error(error)) {
+			if (error instanceof CancelledError) {
+				throw error;
+			}
+			if (!(error instanceof NotFoundError)) {
 				logger.error('Error fetching actions for incident', error);
 			}
 			return [];
 		}
 	}
 
+	/** Post an update to an incident's timeline, optionally changing its status and severity */
+	async postIncidentUpdate(incidentId: string, update: NewIncidentUpdate, signal?: AbortSignal): Promise<IncidentUpdate> {
+		const response = await this.request<IncidentUpdateResponse>('/incident_updates', {
+			method: 'POST',
+			body: buildIncidentUpdateBody(incidentId, update),
+			signal,
+		});
+		return response.incident_update;
+	}
+
+	/** Declare a new incident */
+	async createIncident(
+		incident: NewIncident,
+		fields: CustomField[],
+		idempotencyKey: string,
+		signal?: AbortSignal
+	): Promise<Incident> {
+		const response = await this.request<IncidentResponse>('/incidents', {
+			method: 'POST',
+			body: buildCreateIncidentBody(incident, fields, idempotencyKey),
+			signal,
+		});
+		return response.incident;
+	}
+
+	/** Create a follow-up on an incident, optionally assigned to someone */
+	async createFollowUp(
+		incidentId: string,
+		title: string,
+		assigneeId?: string,
+		signal?: AbortSignal
+	): Promise<FollowUp> {
+		const body: Record<string, string> = { incident_id: incidentId, title };
+		if (assigneeId) {
+			body.assignee_id = assigneeId;
+		}
+		const response = await this.request<FollowUpResponse>('/follow_ups', { method: 'POST', body, signal });
+		return response.follow_up;
+	}
+
+	/** Mark a follow-up completed or outstanding */
+	async updateFollowUpStatus(
+		followUpId: string,
+		status: 'completed' | 'outstanding',
+		signal?: AbortSignal
+	): Promise<FollowUp> {
+		const response = await this.request<FollowUpResponse>(
+			`/follow_ups/${encodeURIComponent(followUpId)}`,
+			{ method: 'PUT', body: { status }, signal }
+		);
+		return response.follow_up;
+	}
+
+	/** Mark an action completed or outstanding */
+	async updateActionStatus(
+		actionId: string,
+		status: 'completed' | 'outstanding',
+		signal?: AbortSignal
+	): Promise<IncidentAction> {
+		const response = await this.request<ActionResponse>(
+			`/actions/${encodeURIComponent(actionId)}`,
+			{ method: 'PUT', body: { status }, signal }
+		);
+		return response.action;
+	}
+
 	// Fetch attachments (v1 endpoint)
-	async getIncidentAttachments(incidentId: string): Promise<IncidentAttachment[]> {
+	async getIncidentAttachments(incidentId: string, signal?: AbortSignal): Promise<IncidentAttachment[]> {
 		try {
-			const response = await this.request<AttachmentsResponse>(
+			return await this.requestAllPages<AttachmentsResponse, IncidentAttachment>(
 				`/incident_attachments?incident_id=${incidentId}`,
-				'v1'
+				response => response.incident_attachments,
+				{ version: 'v1', signal }
 			);
-			return response.incident_attachments || [];
 		} catch (error) {
-			if (!this.is404Error(error)) {
+			if (error instanceof CancelledError) {
+				throw error;
+			}
+			if (!(error instanceof NotFoundError)) {
 				logger.error('Error fetching attachments for incident', error);
 			}
 			return [];
@@ -413,12 +1232,14 @@ export class IncidentIOAPI {
 	}
 
 	// Fetch timestamp values for an incident
-	async getIncidentTimestamps(incidentId: string): Promise<Array<{ name: string; value: string }>> {
+	async getIncidentTimestamps(incidentId: string, signal?: AbortSignal): Promise<Array<{ name: string; value: string }>> {
 		try {
-			const response = await this.request<TimestampValuesResponse>(
-				`/incident_timestamp_values?incident_id=${incidentId}`
+			const timestampValues = await this.requestAllPages<TimestampValuesResponse, IncidentTimestampValue>(
+				`/incident_timestamp_values?incident_id=${incidentId}`,
+				response => response.incident_timestamp_values,
+				{ signal }
 			);
-			return (response.incident_timestamp_values || [])
+			return timestampValues
 				.filter(tv => tv.value?.value)
 				.map(tv => ({
 					name: tv.incident_timestamp.name,
@@ -426,38 +1247,59 @@ export class IncidentIOAPI {
 				}))
 				.sort((a, b) => new Date(a.value).getTime() - new Date(b.value).getTime());
 		} catch (error) {
+			if (error instanceof CancelledError) {
+				throw error;
+			}
 			// 404s are expected if org doesn't have timestamps configured
-			if (!this.is404Error(error)) {
+			if (!(error instanceof NotFoundError)) {
 				logger.error('Error fetching timestamps for incident', error);
 			}
 			return [];
 		}
 	}
 
-	// Orchestrator: fetch all details for an incident
+	// Fetch everything about an incident that isn't on the incident itself
+	async getIncidentDetails(incidentId: string, signal?: AbortSignal): Promise<IncidentDetails> {
+		const [updates, followUps, actions, attachments, timestamps] = await Promise.all([
+			this.getIncidentUpdates(incidentId, signal),
+			this.getIncidentFollowUps(incidentId, signal),
+			this.getIncidentActions(incidentId, signal),
+			this.getIncidentAttachments(incidentId, signal),
+			this.getIncidentTimestamps(incidentId, signal),
+		]);
+		// Cancelled requests come back empty - don't let them pass for real details
+		throwIfAborted(signal);
+		return { updates, followUps, actions, attachments, timestamps };
+	}
+
+	// Orchestrator: fetch all details for an incident, reusing cached details
+	// if the incident hasn't changed since they were fetched
 	async getFullIncidentDetails(
 		incident: Incident,
-		userId: string
+		userId: string,
+		cache?: IncidentDetailCache,
+		signal?: AbortSignal,
+		teamMemberIds?: Set<string>
 	): Promise<FullIncident> {
-		logger.debug(`Fetching full details for incident...`);
-
 		// Build basic incident first
-		const fullIncident = this.buildBasicFullIncident(incident, userId);
-
-		// Fetch all additional details in parallel
-		const [updates, followUps, actions, attachments, timestamps] = await Promise.all([
-			this.getIncidentUpdates(incident.id),
-			this.getIncidentFollowUps(incident.id),
-			this.getIncidentActions(incident.id),
-			this.getIncidentAttachments(incident.id),
-			this.getIncidentTimestamps(incident.id),
-		]);
+		const fullIncident = this.buildBasicFullIncident(incident, userId, teamMemberIds);
+
+		let details = cache && !shouldFetchDetails(incident, cache) ? cache.details.get(incident.id) : undefined;
+		if (!details) {
+			logger.debug(`Fetching full details for incident...`);
+			details = await this.getIncidentDetails(incident.id, signal);
+			if (cache && incident.updated_at) {
+				cache.details.set(incident.id, details);
+				cache.updatedAt[incident.id] = incident.updated_at;
+			}
+		}
 
+		const updates = details.updates;
 		fullIncident.updates = updates;
-		fullIncident.followUps = followUps;
-		fullIncident.actions = actions;
-		fullIncident.attachments = attachments;
-		fullIncident.timestamps = timestamps;
+		fullIncident.followUps = details.followUps;
+		fullIncident.actions = details.actions;
+		fullIncident.attachments = details.attachments;
+		fullIncident.timestamps = details.timestamps;
 
 		// Extract closed_at from timeline if not in incident data
 		// The /v2/incidents endpoint doesn't return closed_at, but we can find it
@@ -475,132 +1317,241 @@ export class IncidentIOAPI {
 			}
 		}
 
+		// Fall back to the timeline for the merge target if the incident itself
+		// doesn't say - the merge update mentions the incident it was merged into
+		if (!fullIncident.mergedInto && fullIncident.statusCategory === 'merged') {
+			const mergeUpdate = updates.find(u => u.new_incident_status?.category === 'merged');
+			const referenceMatch = mergeUpdate?.message?.match(/\b([A-Z]+-\d+)\b/);
+			if (referenceMatch && referenceMatch[1] !== fullIncident.reference) {
+				fullIncident.mergedInto = {
+					reference: referenceMatch[1],
+					url: this.incidentUrl(referenceMatch[1]),
+				};
+			}
+		}
+
 		return fullIncident;
 	}
 
-	async getSchedules(): Promise<Schedule[]> {
-		const response = await this.request<SchedulesResponse>('/schedules');
-		return response.schedules || [];
+	async getSchedules(signal?: AbortSignal): Promise<Schedule[]> {
+		return this.requestAllPages<SchedulesResponse, Schedule>(
+			'/schedules',
+			response => response.schedules,
+			{ pageSize: PAGE_SIZE, signal }
+		);
 	}
 
-	async getScheduleEntries(scheduleId: string, now: string): Promise<ScheduleEntriesResponse> {
-		return this.request<ScheduleEntriesResponse>(
-			`/schedule_entries?schedule_id=${scheduleId}&entry_window_start=${now}&entry_window_end=${now}`
+	async getScheduleEntries(
+		scheduleId: string,
+		windowStart: string,
+		windowEnd: string,
+		signal?: AbortSignal
+	): Promise<ScheduleEntriesResponse> {
+		const final = await this.requestAllPages<ScheduleEntriesResponse, ScheduleEntry>(
+			`/schedule_entries?schedule_id=${scheduleId}&entry_window_start=${windowStart}&entry_window_end=${windowEnd}`,
+			response => response.schedule_entries?.final,
+			{ signal }
 		);
+		return { schedule_entries: { final } };
 	}
 
-	async getOnCallSchedules(userEmail: string): Promise<OnCallResult> {
-		const schedules = await this.getSchedules();
-		const now = new Date().toISOString();
+	/**
+	 * The user's current and next few on-call shifts, and in team mode who from
+	 * the team is on call for each schedule now
+	 */
+	async getOnCallSchedules(
+		userEmail: string,
+		signal?: AbortSignal,
+		team?: IncidentIOUser[],
+		upcomingCount = 0
+	): Promise<OnCallResult> {
+		const schedules = await this.getSchedules(signal);
+		const now = new Date();
+		// Look back far enough to see who handed over the current shift
+		const windowStart = new Date(now.getTime() - ON_CALL_LOOKBACK_DAYS * DAY_MS).toISOString();
+		const windowEnd = new Date(now.getTime() + ON_CALL_LOOKAHEAD_DAYS * DAY_MS).toISOString();
 
 		// Fetch all schedule entries in parallel
-		const scheduleChecks = await Promise.all(
+		const scheduleEntries = await Promise.all(
 			schedules.map(async (schedule) => {
 				try {
-					const entries = await this.getScheduleEntries(schedule.id, now);
-					const finalEntries = entries.schedule_entries?.final || [];
-
-					const isOnCall = finalEntries.some(
-						entry => entry.user?.email?.toLowerCase() === userEmail.toLowerCase()
-					);
-
-					return isOnCall ? schedule.name : null;
+					const entries = await this.getScheduleEntries(schedule.id, windowStart, windowEnd, signal);
+					return { schedule: schedule.name, entries: entries.schedule_entries?.final || [] };
 				} catch (error) {
-					logger.error('Error checking schedule', error);
-					return null;
+					if (!(error instanceof CancelledError)) {
+						logger.error('Error checking schedule', error);
+					}
+					return { schedule: schedule.name, entries: [] };
 				}
 			})
 		);
+		throwIfAborted(signal);
 
-		const onCallSchedules = scheduleChecks.filter((name): name is string => name !== null);
+		const shifts: OnCallShift[] = [];
+		for (const { schedule, entries } of scheduleEntries) {
+			shifts.push(...summarizeShifts(schedule, entries, userEmail));
+		}
+		const { current, upcoming } = splitShifts(shifts, now, upcomingCount);
+		const result: OnCallResult = {
+			schedules: current.map(shift => shift.schedule),
+			shifts: current,
+			upcoming,
+		};
 
-		return { schedules: onCallSchedules };
+		if (!team) {
+			return result;
+		}
+		const currentEntries = scheduleEntries.map(({ schedule, entries }) => ({
+			schedule,
+			entries: entries.filter(entry => coversTime(entry.start_at, entry.end_at, now.getTime())),
+		}));
+		return { ...result, team: summarizeTeamOnCall(currentEntries, team) };
+	}
+
+	/**
+	 * Users listed in a catalog entry's attributes, such as a team's members.
+	 * Attribute values are matched against user IDs and emails.
+	 */
+	async getCatalogEntryMembers(entryId: string, signal?: AbortSignal): Promise<IncidentIOUser[]> {
+		const response = await this.request<CatalogEntryResponse>(
+			`/catalog_entries/${encodeURIComponent(entryId)}`,
+			{ signal }
+		);
+		const literals = new Set(getCatalogEntryLiterals(response.catalog_entry)
+			.map(literal => literal.toLowerCase()));
+		if (literals.size === 0) {
+			return [];
+		}
+
+		const users = await this.getUsers(signal);
+		return users.filter(user =>
+			literals.has(user.id.toLowerCase()) || literals.has((user.email || '').toLowerCase())
+		);
 	}
 
-	// Process items in parallel batches with controlled concurrency
-	// Uses Promise.allSettled to not fail entire batch on single failure
-	private async processInBatches<T, R>(
+	// Process all items in parallel - the request scheduler limits how many
+	// requests are actually in flight. Uses Promise.allSettled so one failure
+	// doesn't fail the rest.
+	private async processAll<T, R>(
 		items: T[],
-		batchSize: number,
 		processor: (item: T) => Promise<R>,
 		onProgress?: (completed: number, total: number) => void
 	): Promise<R[]> {
-		const results: R[] = [];
-
-		for (let i = 0; i < items.length; i += batchSize) {
-			const batch = items.slice(i, i + batchSize);
-
-			// Use allSettled to not fail entire batch on single failure
-			const settledResults = await Promise.allSettled(batch.map(processor));
-
-			for (const result of settledResults) {
-				if (result.status === 'fulfilled') {
-					results.push(result.value);
-				} else {
-					logger.warn(`Batch item failed: ${result.reason}`);
-				}
-			}
-
-			if (onProgress) {
-				onProgress(Math.min(i + batchSize, items.length), items.length);
+		let completed = 0;
+		const settledResults = await Promise.allSettled(items.map(async (item) => {
+			try {
+				return await processor(item);
+			} finally {
+				completed++;
+				onProgress?.(completed, items.length);
 			}
+		}));
 
-			// Small delay between batches to be kind to the API
-			if (i + batchSize < items.length) {
-				await this.delay(50);
+		const results: R[] = [];
+		for (const result of settledResults) {
+			if (result.status === 'fulfilled') {
+				results.push(result.value);
+			} else {
+				logger.warn(`Item failed: ${result.reason}`);
 			}
 		}
-
 		return results;
 	}
 
-	async syncData(userIdentifier: string, historicalOptions?: HistoricalSyncOptions): Promise<SyncResult> {
-		const user = await this.findUser(userIdentifier);
-		if (!user) {
-			throw new Error(`Could not find user matching: ${userIdentifier}`);
-		}
-
-		logger.info('Starting sync for user');
-
-		const [onCall, incidents] = await Promise.all([
-			this.getOnCallSchedules(user.email),
-			historicalOptions
-				? this.getUserIncidentsWithHistory(user.id, historicalOptions)
-				: this.getUserIncidents(user.id),
+	/**
+	 * Fetch everything for the daily note and incident notes. With a detail
+	 * cache, only incidents that are new or changed since the last sync have
+	 * their details fetched; pass none to refetch everything.
+	 * Throws CancelledError if the signal is aborted.
+	 */
+	async syncData(
+		user: SyncUser,
+		options: SyncDataOptions = {},
+		signal?: AbortSignal
+	): Promise<SyncResult> {
+		const { historical, cache, roleFilter, includeSubscribed, customFieldFilters, team, filters, upcomingShifts } = options;
+		const teamMemberIds = team ? team.map(member => member.id) : undefined;
+		const teamMemberIdSet = teamMemberIds ? new Set(teamMemberIds) : undefined;
+		logger.info(team ? `Starting sync for user and ${team.length} team members` : 'Starting sync for user');
+
+		const [onCall, candidates, subscribedIncidentIds] = await Promise.all([
+			this.getOnCallSchedules(user.email, signal, team, upcomingShifts),
+			this.getIncidentsInWindow(historical, filters, signal),
+			includeSubscribed ? this.getSubscribedIncidentIds(user.id, signal) : Promise.resolve(new Set<string>()),
 		]);
 
+		// Keep incidents with a matching role, a subscription or a matching custom field
+		// that pass the filters; the API only applies the filters it supports
+		const inclusion = new Map<string, InclusionReason[]>();
+		for (const incident of candidates) {
+			if (filters && !matchesIncidentFilters(incident, filters)) {
+				continue;
+			}
+			const reasons = getInclusionReasons(incident, user.id, {
+				roleFilter,
+				teamMemberIds,
+				subscribedIncidentIds,
+				customFieldFilters,
+			});
+			if (reasons.length > 0) {
+				inclusion.set(incident.id, reasons);
+			}
+		}
+		const incidents = candidates.filter(incident => inclusion.has(incident.id));
+
 		logger.info(`Found ${incidents.length} incidents to process`);
 
 		// Build basic results immediately
 		const incidentResults: IncidentResult[] = incidents.map(incident => ({
+			id: incident.id,
 			reference: incident.reference,
 			name: incident.name,
 			status: incident.incident_status.name,
+			inclusion: inclusion.get(incident.id),
 		}));
 
-		// Fetch full details in parallel batches (5 incidents at a time)
-		// Each incident fetches 5 endpoints in parallel internally, so 5 incidents = up to 25 concurrent requests
-		const BATCH_SIZE = 5;
+		if (cache) {
+			// Forget incidents that have dropped out of the sync window
+			const currentIds = new Set(incidents.map(incident => incident.id));
+			for (const id of Object.keys(cache.updatedAt)) {
+				if (!currentIds.has(id)) {
+					delete cache.updatedAt[id];
+					cache.details.delete(id);
+				}
+			}
+			const changedCount = incidents.filter(incident => shouldFetchDetails(incident, cache)).length;
+			logger.info(`${changedCount} of ${incidents.length} incidents are new or changed`);
+		}
 
-		const fullIncidents = await this.processInBatches(
+		// Fetch full details for all incidents at once; the scheduler keeps the
+		// number of requests in flight within the configured limit
+		const fullIncidents = await this.processAll(
 			incidents,
-			BATCH_SIZE,
-			(incident) => this.getFullIncidentDetails(incident, user.id),
+			async (incident) => ({
+				...await this.getFullIncidentDetails(incident, user.id, cache, signal, teamMemberIdSet),
+				inclusion: inclusion.get(incident.id),
+			}),
 			(completed, total) => {
 				logger.debug(`Processed ${completed}/${total} incidents`);
 			}
 		);
+		// Failed items are dropped above, so check a cancelled sync didn't just lose them
+		throwIfAborted(signal);
 
 		logger.info('Sync complete');
 
+		// Off call with shifts coming up still counts, so the next shifts are shown
+		const hasOnCall = onCall.schedules.length > 0
+			|| (onCall.upcoming && onCall.upcoming.length > 0)
+			|| (onCall.team && onCall.team.length > 0);
 		return {
-			onCall: onCall.schedules.length > 0 ? onCall : null,
+			onCall: hasOnCall ? onCall : null,
 			incidents: incidentResults,
 			fullIncidents,
 		};
 	}
 
-	private delay(ms: number): Promise<void> {
-		return new Promise(resolve => setTimeout(resolve, ms));
+	private delay(ms: number, signal?: AbortSignal): Promise<void> {
+		return sleep(ms, signal);
 	}
 }
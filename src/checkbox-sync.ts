@@ -0,0 +1,264 @@
+import { App, Notice, TFile } from 'obsidian';
+import { IncidentIOAPI } from './api';
+import { describeApiError } from './errors';
+import { logger } from './logger';
+import { regionEnd, splitFrontmatter } from './managed-regions';
+import { confirm } from './modals';
+import { IncidentDetails } from './types';
+
+// Two-way sync of the follow-up and action checkboxes in incident notes. Each
+// checkbox line ends with a hidden marker holding the item's ID. When a note
+// changes, its checkboxes are compared with the statuses from the last sync;
+// a tick or untick is confirmed with the user and sent to incident.io. If the
+// user declines or the update fails, the checkbox is put back. Unchecked tasks
+// the user writes outside the synced sections can be turned into follow-ups,
+// after which their lines carry a marker too and stand in for the follow-up's
+// entry in the synced Follow-ups section.
+
+export type CheckboxKind = 'follow-up' | 'action';
+
+export interface NoteCheckbox {
+	kind: CheckboxKind;
+	id: string;
+	checked: boolean;
+}
+
+// A checkbox the user has changed since the last sync
+export interface CheckboxChange extends NoteCheckbox {
+	title: string;
+}
+
+// Task list item ending in a marker: prefix, state, rest of the line, kind, ID
+const CHECKBOX_LINE_PATTERN = /^(\s*[-*+] \[)([ xX])(\].*<!-- incident-io:(follow-up|action) ([\w-]+) -->\s*)$/;
+
+// Exported pure functions for testing
+
+/** Hidden marker that ties a checkbox line to its follow-up or action */
+export function checkboxMarker(kind: CheckboxKind, id: string): string {
+	return `<!-- incident-io:${kind} ${id} -->`;
+}
+
+/** Every marked checkbox in a note, in order */
+export function parseCheckboxes(content: string): NoteCheckbox[] {
+	const checkboxes: NoteCheckbox[] = [];
+	for (const line of content.split('\n')) {
+		const match = line.match(CHECKBOX_LINE_PATTERN);
+		if (match) {
+			checkboxes.push({ kind: match[4] as CheckboxKind, id: match[5], checked: match[2] !== ' ' });
+		}
+	}
+	return checkboxes;
+}
+
+/** Tick or untick a marked checkbox, leaving the rest of the note untouched */
+export function setCheckboxState(content: string, kind: CheckboxKind, id: string, checked: boolean): string {
+	return content.split('\n').map(line => {
+		const match = line.match(CHECKBOX_LINE_PATTERN);
+		if (!match || match[4] !== kind || match[5] !== id) {
+			return line;
+		}
+		return `${match[1]}${checked ? 'x' : ' '}${match[3]}`;
+	}).join('\n');
+}
+
+/**
+ * Checkboxes whose state no longer matches their item's status at the last
+ * sync. Items the last sync didn't see are ignored.
+ */
+export function findCheckboxChanges(checkboxes: NoteCheckbox[], details: IncidentDetails): CheckboxChange[] {
+	const changes: CheckboxChange[] = [];
+	for (const checkbox of checkboxes) {
+		let item: { status: string; title: string } | undefined;
+		if (checkbox.kind === 'follow-up') {
+			const followUp = details.followUps.find(candidate => candidate.id === checkbox.id);
+			item = followUp && { status: followUp.status, title: followUp.title };
+		} else {
+			const action = details.actions.find(candidate => candidate.id === checkbox.id);
+			item = action && { status: action.status, title: action.description || 'Untitled action' };
+		}
+		if (item && (item.status === 'completed') !== checkbox.checked) {
+			changes.push({ ...checkbox, title: item.title });
+		}
+	}
+	return changes;
+}
+
+/** An unchecked task the user wrote that isn't linked to incident.io yet */
+export interface NoteTask {
+	line: string; // The whole line, to find it again when rewriting
+	title: string;
+}
+
+// Unchecked task list item: indent, title
+const TASK_LINE_PATTERN = /^(\s*)[-*+] \[ \] (.*\S)\s*$/;
+
+/**
+ * Unchecked tasks outside the frontmatter and managed regions that have no
+ * marker yet, in order
+ */
+export function findNewTasks(content: string): NoteTask[] {
+	const tasks: NoteTask[] = [];
+	const lines = splitFrontmatter(content).body.split('\n');
+	const inRegion = findRegionLines(lines);
+	lines.forEach((line, index) => {
+		const match = line.match(TASK_LINE_PATTERN);
+		if (!inRegion[index] && match && !line.includes('<!-- incident-io:')) {
+			tasks.push({ line, title: match[2] });
+		}
+	});
+	return tasks;
+}
+
+/** Swap a task's line for its linked version, keeping its indent. Only the first copy changes. */
+export function replaceTaskLine(content: string, task: NoteTask, replacement: string): string {
+	const lines = content.split('\n');
+	const index = lines.indexOf(task.line);
+	if (index === -1) {
+		return content;
+	}
+	const indent = task.line.match(/^\s*/)?.[0] || '';
+	lines[index] = `${indent}${replacement}`;
+	return lines.join('\n');
+}
+
+/**
+ * Drop synced checkbox lines for items the user already has a linked line for
+ * outside the managed regions, such as a task turned into a follow-up, so
+ * nothing is listed twice. The user's line takes the synced state instead.
+ */
+export function removeDuplicateCheckboxes(content: string): string {
+	const lines = content.split('\n');
+	const inRegion = findRegionLines(lines);
+	const syncedState = new Map<string, boolean>();
+	const linked = new Set<string>();
+	lines.forEach((line, index) => {
+		const match = line.match(CHECKBOX_LINE_PATTERN);
+		if (match) {
+			const key = `${match[4]} ${match[5]}`;
+			if (inRegion[index]) {
+				syncedState.set(key, match[2] !== ' ');
+			} else {
+				linked.add(key);
+			}
+		}
+	});
+	if (linked.size === 0) {
+		return content;
+	}
+
+	const result: string[] = [];
+	lines.forEach((line, index) => {
+		const match = line.match(CHECKBOX_LINE_PATTERN);
+		const key = match ? `${match[4]} ${match[5]}` : '';
+		if (!match || !linked.has(key)) {
+			result.push(line);
+		} else if (!inRegion[index]) {
+			const checked = syncedState.get(key);
+			result.push(checked === undefined ? line : `${match[1]}${checked ? 'x' : ' '}${match[3]}`);
+		}
+	});
+	return result.join('\n');
+}
+
+/** Whether each line is inside a managed region, counting its start and end markers */
+function findRegionLines(lines: string[]): boolean[] {
+	let region: string | null = null;
+	return lines.map(line => {
+		const start = line.match(/<!-- incident-io:start ([\w-]+) -->/);
+		if (start) {
+			region = start[1];
+			return true;
+		}
+		if (region && line.includes(regionEnd(region))) {
+			region = null;
+			return true;
+		}
+		return region !== null;
+	});
+}
+
+/** What the checkbox manager needs from the plugin */
+export interface CheckboxSyncHost {
+	// Details from the last sync, holding each checkbox's previous state
+	getIncidentDetails(incidentId: string): IncidentDetails | undefined;
+	// Client for the workspace the note belongs to. Throws if that can't be told or has no API key.
+	getApi(file: TFile): IncidentIOAPI;
+}
+
+export class CheckboxSyncManager {
+	private app: App;
+	private host: CheckboxSyncHost;
+	// Checkboxes with a confirmation or update in progress, so edits meanwhile don't ask again
+	private pending = new Set<string>();
+
+	constructor(app: App, host: CheckboxSyncHost) {
+		this.app = app;
+		this.host = host;
+	}
+
+	/** Look for changed checkboxes in an incident note the user has edited */
+	async handleModify(file: TFile, incidentId: string): Promise<void> {
+		const details = this.host.getIncidentDetails(incidentId);
+		if (!details) {
+			return;
+		}
+
+		const content = await this.app.vault.read(file);
+		const changes = findCheckboxChanges(parseCheckboxes(content), details)
+			.filter(change => !this.pending.has(`${change.kind}:${change.id}`));
+		for (const change of changes) {
+			await this.applyChange(file, details, change);
+		}
+	}
+
+	private async applyChange(
+		file: TFile,
+		details: IncidentDetails,
+		change: CheckboxChange
+	): Promise<void> {
+		const key = `${change.kind}:${change.id}`;
+		const status = change.checked ? 'completed' : 'outstanding';
+		const label = change.kind === 'follow-up' ? 'follow-up' : 'action';
+		this.pending.add(key);
+
+		try {
+			const confirmed = await confirm(this.app, {
+				title: 'Update incident.io',
+				message: `Mark the ${label} "${change.title}" as ${status} in incident.io?`,
+				confirmText: change.checked ? 'Mark completed' : 'Mark outstanding',
+			});
+			if (!confirmed) {
+				await this.revert(file, change);
+				return;
+			}
+
+			const api = this.host.getApi(file);
+			// Record the new status so the checkbox counts as synced from now on
+			if (change.kind === 'follow-up') {
+				await api.updateFollowUpStatus(change.id, status);
+				const followUp = details.followUps.find(candidate => candidate.id === change.id);
+				if (followUp) {
+					followUp.status = status;
+				}
+			} else {
+				await api.updateActionStatus(change.id, status);
+				const action = details.actions.find(candidate => candidate.id === change.id);
+				if (action) {
+					action.status = status;
+				}
+			}
+			logger.info(`Marked ${label} ${status}`);
+		} catch (error) {
+			logger.error(`Failed to update ${label}`, error);
+			await this.revert(file, change);
+			new Notice(`Incident.io: couldn't update "${change.title}": ${describeApiError(error)}`);
+		} finally {
+			this.pending.delete(key);
+		}
+	}
+
+	/** Put a checkbox back the way the last sync left it */
+	private async revert(file: TFile, change: CheckboxChange): Promise<void> {
+		await this.app.vault.process(file, content => setCheckboxState(content, change.kind, change.id, !change.checked));
+	}
+}
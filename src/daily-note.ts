@@ -1,6 +1,9 @@
 import { App, TFile, normalizePath, Plugin } from 'obsidian';
-import { SyncResult, IncidentIOSyncSettings, FullIncident } from './types';
+import { SyncResult, IncidentIOSyncSettings, FullIncident, RoleFilter, OnCallResult, OnCallShift } from './types';
 import { logger } from './logger';
+import { throwIfAborted } from './errors';
+import { getSettingsForIncident } from './workspaces';
+import { buildIncidentNotePath, formatDate, getArchiveRule, getIncidentNoteFolder } from './incident-notes';
 
 // Exported pure functions for testing
 
@@ -30,6 +33,121 @@ export function filterIncidentsForDate(incidents: FullIncident[], date: Date): F
 	});
 }
 
+/** Team members' roles on an incident, e.g. "Alice (Incident Lead), Bob (Scribe)" */
+export function formatTeamRoles(incident: FullIncident): string {
+	return incident.roles
+		.filter(role => role.isTeamMember)
+		.map(role => `${role.assignee} (${role.role})`)
+		.join(', ');
+}
+
+export type IncidentGroup = 'Leading' | 'Involved' | 'Watching';
+
+const INCIDENT_GROUPS: IncidentGroup[] = ['Leading', 'Involved', 'Watching'];
+
+/**
+ * Which daily note group an incident belongs in, from why it was synced.
+ * Results cached before inclusion was recorded fall back to the user's roles.
+ */
+export function getIncidentGroup(incident: FullIncident): IncidentGroup {
+	const inclusion = incident.inclusion;
+	if (!inclusion) {
+		return incident.roles.some(role => role.isUser && role.roleType === 'lead') ? 'Leading' : 'Involved';
+	}
+	if (inclusion.includes('lead')) {
+		return 'Leading';
+	}
+	if (inclusion.includes('role')) {
+		return 'Involved';
+	}
+	return 'Watching';
+}
+
+/** Split incidents into non-empty groups, in display order */
+export function groupIncidents(incidents: FullIncident[]): Array<{ group: IncidentGroup; incidents: FullIncident[] }> {
+	return INCIDENT_GROUPS
+		.map(group => ({ group, incidents: incidents.filter(incident => getIncidentGroup(incident) === group) }))
+		.filter(entry => entry.incidents.length > 0);
+}
+
+/**
+ * Placeholder for an empty incidents section, worded to match the role
+ * filter. With subscribed or custom-field incidents included, watching counts
+ * too.
+ */
+export function formatNoIncidentsMessage(filter: RoleFilter, watching = false): string {
+	if (watching) {
+		return "_No incidents you're involved in or watching_";
+	}
+	const { roleTypes } = filter;
+	const customRoleNames = roleTypes.includes('custom')
+		? []
+		: filter.customRoleNames.map(name => name.trim()).filter(name => name);
+
+	if (roleTypes.length === 3) {
+		return '_No incidents you have a role in_';
+	}
+	if (customRoleNames.length === 0) {
+		if (roleTypes.length === 0) {
+			return '_No incidents match your role filter_';
+		}
+		if (roleTypes.length === 1 && roleTypes[0] === 'lead') {
+			return "_No incidents you're leading_";
+		}
+		if (roleTypes.length === 1 && roleTypes[0] === 'reporter') {
+			return '_No incidents you reported_';
+		}
+	}
+
+	const roles: string[] = roleTypes.map(roleType => roleType === 'custom' ? 'in a custom role' : roleType);
+	roles.push(...customRoleNames);
+	const list = roles.length > 1
+		? `${roles.slice(0, -1).join(', ')} or ${roles[roles.length - 1]}`
+		: roles[0];
+	return `_No incidents where you're ${list}_`;
+}
+
+/** A shift as "Primary: 2024-01-15 09:00 → 2024-01-22 09:00 (from Alice, to Bob)" */
+export function formatShift(shift: OnCallShift): string {
+	const handovers: string[] = [];
+	if (shift.handoverFrom) {
+		handovers.push(`from ${shift.handoverFrom}`);
+	}
+	if (shift.handoverTo) {
+		handovers.push(`to ${shift.handoverTo}`);
+	}
+	const times = `${formatDate(new Date(shift.start))} → ${formatDate(new Date(shift.end))}`;
+	return `${shift.schedule}: ${times}${handovers.length > 0 ? ` (${handovers.join(', ')})` : ''}`;
+}
+
+// Daily note frontmatter keys the plugin owns
+export const ON_CALL_FRONTMATTER_KEYS = [
+	'on_call',
+	'on_call_until',
+	'on_call_handover_to',
+	'next_on_call',
+	'next_on_call_schedule',
+];
+
+/**
+ * On-call frontmatter for today's daily note: the schedules the user is on,
+ * when the first of those shifts ends and who takes over, and when the next
+ * shift starts. Keys with no value are left out so they get removed.
+ */
+export function buildOnCallFrontmatter(onCall: OnCallResult | null): Record<string, unknown> {
+	const endingFirst = (onCall?.shifts || [])
+		.slice()
+		.sort((a, b) => new Date(a.end).getTime() - new Date(b.end).getTime())[0];
+	const next = onCall?.upcoming?.[0];
+	return {
+		on_call: onCall && onCall.schedules.length > 0 ? onCall.schedules : undefined,
+		on_call_until: endingFirst?.end,
+		on_call_handover_to: endingFirst?.handoverTo,
+		next_on_call: next?.start,
+		next_on_call_schedule: next?.schedule,
+	};
+}
+
 // Type declarations for internal Obsidian plugin APIs
 interface PeriodicNotesSettings {
 	daily?: {
@@ -179,14 +297,27 @@ export class DailyNoteManager {
 	}
 
 	formatIncidentLink(incident: FullIncident, useWikilinks: boolean): string {
-		if (useWikilinks) {
-			// Use wikilink with alias for display
-			const wikilinkPath = normalizePath(`${this.settings.incidentNotesFolder}/${incident.reference}`);
-			return `- [[${wikilinkPath}|${incident.reference}: ${incident.name}]]`;
+		// Each workspace keeps its notes in its own folder
+		const noteSettings = getSettingsForIncident(this.settings, incident);
+		// Notes deleted by archive rules have nothing to link to
+		const noteDeleted = getArchiveRule(noteSettings, incident)?.action === 'delete';
+		// Team mode: say which team members are involved and how
+		const teamRoles = this.settings.teamModeEnabled ? formatTeamRoles(incident) : '';
+		// With several workspaces, say which one the incident belongs to
+		const workspace = incident.workspace ? ` (${incident.workspace.name})` : '';
+		const suffix = `${workspace}${teamRoles ? ` - ${teamRoles}` : ''}`;
+
+		if (useWikilinks && !noteDeleted) {
+			// Use wikilink with alias for display, pointing at wherever the note actually lives
+			const folder = getIncidentNoteFolder(noteSettings, incident);
+			const wikilinkPath = incident.notePath
+				? incident.notePath.replace(/\.md$/, '')
+				: buildIncidentNotePath(folder, noteSettings.incidentNotePathPattern, incident);
+			return `- [[${wikilinkPath}|${incident.reference}: ${incident.name}]]${suffix}`;
 		}
 
 		// Fallback to external link format
-		return `- [${incident.reference}](${incident.url}): "${incident.name}" (${incident.status})`;
+		return `- [${incident.reference}](${incident.url}): "${incident.name}" (${incident.status})${suffix}`;
 	}
 
 	/** Filter incidents for a date - delegates to exported function */
@@ -198,24 +329,44 @@ export class DailyNoteManager {
 	formatSyncResultForDate(result: SyncResult, date: Date, useWikilinks = true): string {
 		const lines: string[] = [this.settings.sectionHeader, ''];
 
-		// Check if this is today's note
-		const today = new Date();
-		today.setHours(0, 0, 0, 0);
-		const targetDate = new Date(date);
-		targetDate.setHours(0, 0, 0, 0);
-		const isToday = today.getTime() === targetDate.getTime();
-
 		// On-call section - only show for today's note (on-call is point-in-time data)
-		if (this.settings.showOnCall && isToday) {
-			if (result.onCall && result.onCall.schedules.length > 0) {
+		if (this.settings.showOnCall && this.isToday(date)) {
+			const schedules = result.onCall?.schedules || [];
+			const upcoming = (result.onCall?.upcoming || []).slice(0, this.settings.upcomingShiftCount);
+			if (schedules.length > 0 || upcoming.length > 0 || !this.settings.omitEmptySections) {
 				lines.push('### On-Call');
-				lines.push(`- On-call for: ${result.onCall.schedules.join(', ')}`);
-				lines.push('');
-			} else if (!this.settings.omitEmptySections) {
-				lines.push('### On-Call');
-				lines.push('_Not on-call today_');
+				if (schedules.length > 0) {
+					lines.push(`- On-call for: ${schedules.join(', ')}`);
+					for (const shift of result.onCall?.shifts || []) {
+						lines.push(`  - ${formatShift(shift)}`);
+					}
+				} else {
+					lines.push('_Not on-call today_');
+				}
+				if (upcoming.length > 0) {
+					lines.push('- Next shifts:');
+					for (const shift of upcoming) {
+						lines.push(`  - ${formatShift(shift)}`);
+					}
+				}
 				lines.push('');
 			}
+
+			// Team mode: who from the team is on call for each schedule
+			if (this.settings.teamModeEnabled) {
+				const teamOnCall = result.onCall?.team || [];
+				if (teamOnCall.length > 0) {
+					lines.push('### Team On-Call');
+					for (const { schedule, members } of teamOnCall) {
+						lines.push(`- ${schedule}: ${members.join(', ')}`);
+					}
+					lines.push('');
+				} else if (!this.settings.omitEmptySections) {
+					lines.push('### Team On-Call');
+					lines.push('_Nobody on the team is on call_');
+					lines.push('');
+				}
+			}
 		}
 
 		// Incidents section - incidents that were active on this date
@@ -224,13 +375,22 @@ export class DailyNoteManager {
 
 			if (incidentsOnDate.length > 0) {
 				lines.push('### Active Incidents');
-				for (const incident of incidentsOnDate) {
-					lines.push(this.formatIncidentLink(incident, useWikilinks));
+				const groups = groupIncidents(incidentsOnDate);
+				// Only split into groups when there's more than one kind
+				for (const { group, incidents } of groups) {
+					if (groups.length > 1) {
+						lines.push(`#### ${group}`);
+					}
+					for (const incident of incidents) {
+						lines.push(this.formatIncidentLink(incident, useWikilinks));
+					}
 				}
 				lines.push('');
 			} else if (!this.settings.omitEmptySections) {
+				const watching = this.settings.includeSubscribed ||
+					this.settings.customFieldFilters.some(filter => filter.fieldName.trim() && filter.value.trim());
 				lines.push('### Active Incidents');
-				lines.push("_No incidents you're leading_");
+				lines.push(formatNoIncidentsMessage(this.settings.roleFilter, watching));
 				lines.push('');
 			}
 		}
@@ -248,7 +408,12 @@ export class DailyNoteManager {
 		return this.formatSyncResultForDate(result, new Date(), useWikilinks);
 	}
 
-	async updateDailyNote(result: SyncResult, date?: Date): Promise<boolean> {
+	/**
+	 * Write the incidents section of a daily note. Throws CancelledError
+	 * (before touching the note) if the signal has been aborted.
+	 */
+	async updateDailyNote(result: SyncResult, date?: Date, signal?: AbortSignal): Promise<boolean> {
+		throwIfAborted(signal);
 		try {
 			const targetDate = date || new Date();
 			const dailyNote = this.getDailyNoteForDate(targetDate);
@@ -262,10 +427,12 @@ export class DailyNoteManager {
 			// If nothing to show and omitting empty sections, remove the section entirely
 			if (!sectionContent && this.settings.omitEmptySections) {
 				await this.removeSectionFromNote(dailyNote);
+				await this.updateOnCallFrontmatter(dailyNote, result, targetDate);
 				return true;
 			}
 
-			let content = await this.app.vault.read(dailyNote);
+			const original = await this.app.vault.read(dailyNote);
+			let content = original;
 			const sectionHeaderText = this.settings.sectionHeader.replace(/^#+\s*/, '').trim();
 
 			// Use MetadataCache to find existing headings
@@ -298,7 +465,12 @@ export class DailyNoteManager {
 				content += '\n\n' + sectionContent;
 			}
 
-			await this.app.vault.process(dailyNote, () => content);
+			// Leave the file alone if the section hasn't changed, so its mtime
+			// (and anything watching it) isn't disturbed on every sync
+			if (content !== original) {
+				await this.app.vault.process(dailyNote, () => content);
+			}
+			await this.updateOnCallFrontmatter(dailyNote, result, targetDate);
 			return true;
 		} catch (error) {
 			logger.error('Error updating daily note', error);
@@ -306,6 +478,43 @@ export class DailyNoteManager {
 		}
 	}
 
+	/**
+	 * Write the on-call frontmatter to today's daily note. Earlier notes keep
+	 * theirs, and the note is left alone when nothing has changed.
+	 */
+	private async updateOnCallFrontmatter(dailyNote: TFile, result: SyncResult, date: Date): Promise<void> {
+		if (!this.settings.showOnCall || !this.settings.onCallFrontmatter || !this.isToday(date)) {
+			return;
+		}
+
+		const generated = buildOnCallFrontmatter(result.onCall);
+		const existing = this.app.metadataCache.getFileCache(dailyNote)?.frontmatter || {};
+		const changed = ON_CALL_FRONTMATTER_KEYS.some(key =>
+			JSON.stringify(existing[key]) !== JSON.stringify(generated[key])
+		);
+		if (!changed) {
+			return;
+		}
+
+		await this.app.fileManager.processFrontMatter(dailyNote, (frontmatter: Record<string, unknown>) => {
+			for (const key of ON_CALL_FRONTMATTER_KEYS) {
+				if (generated[key] === undefined) {
+					delete frontmatter[key];
+				} else {
+					frontmatter[key] = generated[key];
+				}
+			}
+		});
+	}
+
+	private isToday(date: Date): boolean {
+		const today = new Date();
+		today.setHours(0, 0, 0, 0);
+		const targetDate = new Date(date);
+		targetDate.setHours(0, 0, 0, 0);
+		return today.getTime() === targetDate.getTime();
+	}
+
 	async removeSectionFromNote(dailyNote: TFile): Promise<void> {
 		try {
 			let content = await this.app.vault.read(dailyNote);
@@ -361,9 +570,10 @@ export class DailyNoteManager {
 
 	async updateDailyNoteForDate(
 		date: Date,
-		result: SyncResult
+		result: SyncResult,
+		signal?: AbortSignal
 	): Promise<boolean> {
 		// Simply delegate to updateDailyNote with the specific date
-		return this.updateDailyNote(result, date);
+		return this.updateDailyNote(result, date, signal);
 	}
 }
@@ -0,0 +1,204 @@
+// Typed errors for incident.io API requests. Each carries the HTTP status (if
+// a response was received), the endpoint and the request ID incident.io
+// returned, and knows whether retrying it could help.
+
+export class ApiError extends Error {
+	readonly status?: number;
+	readonly endpoint: string;
+	readonly requestId?: string;
+
+	constructor(message: string, endpoint: string, status?: number, requestId?: string) {
+		super(message);
+		this.name = 'ApiError';
+		this.endpoint = endpoint;
+		this.status = status;
+		this.requestId = requestId;
+	}
+
+	/** Whether the same request might succeed if retried */
+	get retryable(): boolean {
+		return false;
+	}
+}
+
+/** 401 - the API key is missing, invalid or revoked */
+export class AuthenticationError extends ApiError {
+	constructor(endpoint: string, requestId?: string) {
+		super(`API key rejected (401): ${endpoint}`, endpoint, 401, requestId);
+		this.name = 'AuthenticationError';
+	}
+}
+
+/** 403 - the API key lacks a scope the endpoint needs */
+export class ForbiddenError extends ApiError {
+	readonly missingScope?: string;
+
+	constructor(endpoint: string, requestId?: string, missingScope?: string) {
+		super(`API key not permitted (403): ${endpoint}`, endpoint, 403, requestId);
+		this.name = 'ForbiddenError';
+		this.missingScope = missingScope;
+	}
+}
+
+/** 404 - also returned for endpoints an organisation doesn't have */
+export class NotFoundError extends ApiError {
+	constructor(endpoint: string, requestId?: string) {
+		super(`Not found (404): ${endpoint}`, endpoint, 404, requestId);
+		this.name = 'NotFoundError';
+	}
+}
+
+/** 429 - too many requests */
+export class RateLimitedError extends ApiError {
+	// Value of the Retry-After header, in seconds
+	readonly retryAfter?: string;
+
+	constructor(endpoint: string, requestId?: string, retryAfter?: string) {
+		super(`Rate limited (429): ${endpoint}`, endpoint, 429, requestId);
+		this.name = 'RateLimitedError';
+		this.retryAfter = retryAfter;
+	}
+
+	get retryable(): boolean {
+		return true;
+	}
+}
+
+/** 5xx - incident.io had a problem */
+export class ServerError extends ApiError {
+	constructor(status: number, endpoint: string, requestId?: string) {
+		super(`Server error (${status}): ${endpoint}`, endpoint, status, requestId);
+		this.name = 'ServerError';
+	}
+
+	get retryable(): boolean {
+		return true;
+	}
+}
+
+/** No response - DNS, connection or TLS failure */
+export class NetworkError extends ApiError {
+	constructor(endpoint: string, cause?: string) {
+		super(`Network error${cause ? ` (${cause})` : ''}: ${endpoint}`, endpoint);
+		this.name = 'NetworkError';
+	}
+
+	get retryable(): boolean {
+		return true;
+	}
+}
+
+/** No response within the request timeout */
+export class TimeoutError extends ApiError {
+	constructor(endpoint: string) {
+		super(`Request timed out: ${endpoint}`, endpoint);
+		this.name = 'TimeoutError';
+	}
+
+	get retryable(): boolean {
+		return true;
+	}
+}
+
+/** A sync, or one of its requests, was cancelled through its AbortSignal */
+export class CancelledError extends Error {
+	constructor() {
+		super('Sync cancelled');
+		this.name = 'CancelledError';
+	}
+}
+
+/** Throw CancelledError if the signal has been aborted */
+export function throwIfAborted(signal?: AbortSignal): void {
+	if (signal?.aborted) {
+		throw new CancelledError();
+	}
+}
+
+// Exported pure functions for testing
+
+/** Pull the missing scope out of a 403 response body, if incident.io named one */
+export function parseMissingScope(body: unknown): string | undefined {
+	if (!body || typeof body !== 'object') {
+		return undefined;
+	}
+	const errors = (body as { errors?: Array<{ message?: unknown; scope?: unknown }> }).errors;
+	for (const error of Array.isArray(errors) ? errors : []) {
+		if (typeof error?.scope === 'string' && error.scope) {
+			return error.scope;
+		}
+		const match = typeof error?.message === 'string'
+			? error.message.match(/scope[s]?\W+([\w.:-]+)/i)
+			: null;
+		if (match) {
+			return match[1];
+		}
+	}
+	return undefined;
+}
+
+/** Build the typed error for a non-2xx response */
+export function createApiError(
+	status: number,
+	endpoint: string,
+	options: { requestId?: string; retryAfter?: string; body?: unknown } = {}
+): ApiError {
+	const { requestId } = options;
+	if (status === 401) {
+		return new AuthenticationError(endpoint, requestId);
+	}
+	if (status === 403) {
+		return new ForbiddenError(endpoint, requestId, parseMissingScope(options.body));
+	}
+	if (status === 404) {
+		return new NotFoundError(endpoint, requestId);
+	}
+	if (status === 429) {
+		return new RateLimitedError(endpoint, requestId, options.retryAfter);
+	}
+	if (status >= 500) {
+		return new ServerError(status, endpoint, requestId);
+	}
+	return new ApiError(`API request failed with status ${status}: ${endpoint}`, endpoint, status, requestId);
+}
+
+/** Classify a failure from the transport, where no response was received */
+export function createTransportError(error: unknown, endpoint: string): ApiError {
+	if (error instanceof ApiError) {
+		return error;
+	}
+	const message = error instanceof Error ? error.message : '';
+	if (/timed? ?out|ETIMEDOUT/i.test(message)) {
+		return new TimeoutError(endpoint);
+	}
+	return new NetworkError(endpoint, message || undefined);
+}
+
+/** A message for the user that says what went wrong and what to do about it */
+export function describeApiError(error: unknown): string {
+	if (error instanceof CancelledError) {
+		return 'sync cancelled';
+	}
+	if (error instanceof AuthenticationError) {
+		return 'API key revoked or invalid - add a new key in settings';
+	}
+	if (error instanceof ForbiddenError) {
+		return error.missingScope
+			? `API key is missing the "${error.missingScope}" scope`
+			: `API key doesn't have permission to access ${error.endpoint}`;
+	}
+	if (error instanceof RateLimitedError) {
+		return 'rate limited by incident.io - try again in a minute';
+	}
+	if (error instanceof ServerError) {
+		const requestId = error.requestId ? ` (request ${error.requestId})` : '';
+		return `incident.io returned an error (${error.status})${requestId} - try again later`;
+	}
+	if (error instanceof TimeoutError) {
+		return 'incident.io took too long to respond';
+	}
+	if (error instanceof NetworkError) {
+		return 'couldn\'t reach incident.io - check your connection';
+	}
+	return error instanceof Error ? error.message : 'Unknown error';
+}
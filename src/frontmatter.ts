@@ -0,0 +1,227 @@
+import { FullIncident, IncidentIOSyncSettings, IncidentNoteFrontmatter } from './types';
+
+// Frontmatter for incident notes. Values are written through
+// fileManager.processFrontMatter so they merge with keys users add themselves.
+
+/** Tag written on every incident note; status/severity tags are nested under it */
+export const INCIDENT_TAG = 'incident';
+
+/**
+ * Keys the plugin always owns. Mapped custom field keys are added on top of
+ * these (see getManagedFrontmatterKeys).
+ */
+export const MANAGED_FRONTMATTER_KEYS = [
+	'incident_id',
+	'reference',
+	'workspace',
+	'name',
+	'created_at',
+	'updated_at',
+	'closed_at',
+	'status',
+	'status_category',
+	'severity',
+	'type',
+	'url',
+	'duration_minutes',
+	'merged_into',
+	'lead',
+	'reporter',
+	'roles',
+	'my_role',
+	'team_roles',
+	'custom_fields',
+	'timestamps',
+	'follow_up_count',
+	'open_follow_up_count',
+	'action_count',
+	'open_action_count',
+];
+
+/** Convert a display name to a frontmatter-friendly key, e.g. "Affected team" -> "affected_team" */
+export function toFrontmatterKey(name: string): string {
+	return name
+		.normalize('NFKD')
+		.replace(/[\u0300-\u036f]/g, '')
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, '_')
+		.replace(/^_+|_+$/g, '');
+}
+
+/** Convert a value to a tag segment, e.g. "SEV 1" -> "sev-1" */
+function toTagSegment(value: string): string {
+	return toFrontmatterKey(value).replace(/_/g, '-');
+}
+
+/** Keys the current custom field mappings write, besides the always-managed ones */
+export function getMappedFrontmatterKeys(settings: IncidentIOSyncSettings): string[] {
+	const keys: string[] = [];
+	for (const mapping of settings.customFieldMappings || []) {
+		if (mapping.key && MANAGED_FRONTMATTER_KEYS.indexOf(mapping.key) === -1 && keys.indexOf(mapping.key) === -1) {
+			keys.push(mapping.key);
+		}
+	}
+	return keys;
+}
+
+/**
+ * All keys the plugin owns for the given settings, plus mapped keys it wrote
+ * to the note before, so those are removed once their mapping is gone
+ */
+export function getManagedFrontmatterKeys(settings: IncidentIOSyncSettings, previouslyMapped: string[] = []): string[] {
+	const keys = [...MANAGED_FRONTMATTER_KEYS];
+	for (const key of [...getMappedFrontmatterKeys(settings), ...previouslyMapped]) {
+		if (keys.indexOf(key) === -1) {
+			keys.push(key);
+		}
+	}
+	return keys;
+}
+
+/**
+ * Build the plugin-owned frontmatter for an incident. Keys with no value are
+ * left out so they get removed from existing notes.
+ */
+export function buildIncidentFrontmatter(
+	incident: FullIncident,
+	settings: IncidentIOSyncSettings,
+	mergedIntoLink?: string
+): Record<string, unknown> {
+	// Roles: lead and reporter as top-level lists, custom roles grouped under "roles"
+	const leads: string[] = [];
+	const reporters: string[] = [];
+	const customRoles: Record<string, string[]> = {};
+	const myRoles: string[] = [];
+	const teamRoles: string[] = [];
+	for (const role of incident.roles) {
+		if (role.roleType === 'lead') {
+			leads.push(role.assignee);
+		} else if (role.roleType === 'reporter') {
+			reporters.push(role.assignee);
+		} else {
+			const key = toFrontmatterKey(role.role);
+			if (key) {
+				(customRoles[key] = customRoles[key] || []).push(role.assignee);
+			}
+		}
+		if (role.isUser) {
+			myRoles.push(role.role);
+		}
+		if (role.isTeamMember) {
+			teamRoles.push(`${role.assignee} (${role.role})`);
+		}
+	}
+
+	// Timestamps
+	const timestamps: Record<string, string> = {};
+	for (const ts of incident.timestamps) {
+		const key = toFrontmatterKey(ts.name);
+		if (key) {
+			timestamps[key] = ts.value;
+		}
+	}
+
+	const frontmatter: IncidentNoteFrontmatter & Record<string, unknown> = {
+		incident_id: incident.id,
+		reference: incident.reference,
+		workspace: incident.workspace?.name,
+		name: incident.name,
+		created_at: incident.created_at,
+		updated_at: incident.updated_at,
+		closed_at: incident.closed_at,
+		status: incident.status,
+		status_category: incident.statusCategory,
+		severity: incident.severity,
+		type: incident.incidentType,
+		url: incident.url,
+		duration_minutes: incident.durationMinutes,
+		merged_into: mergedIntoLink,
+		lead: leads.length > 0 ? leads : undefined,
+		reporter: reporters.length > 0 ? reporters : undefined,
+		roles: Object.keys(customRoles).length > 0 ? customRoles : undefined,
+		my_role: myRoles.length > 0 ? myRoles : undefined,
+		team_roles: teamRoles.length > 0 ? teamRoles : undefined,
+		timestamps: Object.keys(timestamps).length > 0 ? timestamps : undefined,
+		follow_up_count: incident.followUps.length,
+		open_follow_up_count: incident.followUps.filter(f => f.status === 'outstanding').length,
+		action_count: incident.actions.length,
+		open_action_count: incident.actions.filter(a => a.status === 'outstanding').length,
+	};
+
+	// Custom fields: mapped fields get their own key, excluded fields are
+	// skipped, everything else is grouped under "custom_fields"
+	const mappings = settings.customFieldMappings || [];
+	const customFields: Record<string, string> = {};
+	for (const field of incident.customFields) {
+		const mapping = mappings.find(m => m.fieldName.trim().toLowerCase() === field.name.trim().toLowerCase());
+		if (mapping) {
+			if (mapping.key && MANAGED_FRONTMATTER_KEYS.indexOf(mapping.key) === -1) {
+				frontmatter[mapping.key] = field.value;
+			}
+			continue;
+		}
+		const key = toFrontmatterKey(field.name);
+		if (key) {
+			customFields[key] = field.value;
+		}
+	}
+	frontmatter.custom_fields = Object.keys(customFields).length > 0 ? customFields : undefined;
+
+	return frontmatter;
+}
+
+/** Tags the plugin owns for an incident, e.g. incident, incident/status/live, incident/severity/sev-1 */
+export function buildIncidentTags(incident: FullIncident): string[] {
+	const tags = [INCIDENT_TAG, `${INCIDENT_TAG}/status/${toTagSegment(incident.statusCategory)}`];
+	const severity = toTagSegment(incident.severity);
+	if (severity) {
+		tags.push(`${INCIDENT_TAG}/severity/${severity}`);
+	}
+	return tags;
+}
+
+/** Normalise a frontmatter list property that may be a string, list or missing */
+function toList(value: unknown): string[] {
+	if (Array.isArray(value)) {
+		return value.filter((v): v is string => typeof v === 'string');
+	}
+	if (typeof value === 'string' && value.trim()) {
+		return value.split(',').map(v => v.trim()).filter(v => v);
+	}
+	return [];
+}
+
+/**
+ * Apply generated frontmatter to a note's parsed frontmatter in place.
+ * - Managed keys take their generated values, or are removed if not generated.
+ * - Tags: plugin tags (incident, incident/…) are replaced, other tags are kept.
+ * - Aliases: the reference is added if missing, other aliases are kept.
+ * - All other keys are left untouched.
+ */
+export function applyIncidentFrontmatter(
+	frontmatter: Record<string, unknown>,
+	generated: Record<string, unknown>,
+	managedKeys: string[],
+	incident: FullIncident
+): void {
+	for (const key of managedKeys) {
+		const value = generated[key];
+		if (value === undefined || value === null || value === '') {
+			delete frontmatter[key];
+		} else {
+			frontmatter[key] = value;
+		}
+	}
+
+	const userTags = toList(frontmatter.tags).filter(tag => {
+		const bare = tag.replace(/^#/, '');
+		return bare !== INCIDENT_TAG && !bare.startsWith(`${INCIDENT_TAG}/`);
+	});
+	frontmatter.tags = [...buildIncidentTags(incident), ...userTags];
+
+	const aliases = toList(frontmatter.aliases);
+	if (aliases.indexOf(incident.reference) === -1) {
+		aliases.unshift(incident.reference);
+	}
+	frontmatter.aliases = aliases;
+}
@@ -1,6 +1,30 @@
 import { App, TFile, TFolder, normalizePath } from 'obsidian';
-import { IncidentIOSyncSettings, FullIncident, IncidentUpdate, FollowUp, IncidentAction, IncidentAttachment } from './types';
+import {
+	IncidentIOSyncSettings,
+	FullIncident,
+	FollowUp,
+	IncidentAction,
+	IncidentAttachment,
+	ArchiveRule,
+	IncidentNoteSyncSummary,
+	NoteWriteOutcome,
+	SyncState,
+	SyncResult,
+} from './types';
 import { logger } from './logger';
+import { IncidentNoteIndex } from './note-index';
+import { throwIfAborted } from './errors';
+import { mergeManagedContent } from './managed-regions';
+import { applyIncidentFrontmatter, buildIncidentFrontmatter, getManagedFrontmatterKeys, getMappedFrontmatterKeys } from './frontmatter';
+import { checkboxMarker, removeDuplicateCheckboxes } from './checkbox-sync';
+import {
+	CompiledTemplate,
+	DEFAULT_INCIDENT_TEMPLATE,
+	TemplateError,
+	TemplateHelper,
+	compileTemplate,
+	renderTemplate,
+} from './template';
 
 // Exported pure functions for testing
 
@@ -45,13 +69,174 @@ export function formatDuration(minutes: number): string {
 	return `${hours}h ${mins}m`;
 }
 
+/**
+ * Turn text into a filename-safe slug, e.g. "DB: Connection Outage!" -> "db-connection-outage".
+ * Accents are folded to plain letters and long slugs are cut at a word boundary.
+ */
+export function slugify(text: string, maxLength = 60): string {
+	const slug = text
+		.normalize('NFKD')
+		.replace(/[\u0300-\u036f]/g, '')
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, '-')
+		.replace(/^-+|-+$/g, '');
+
+	if (slug.length <= maxLength) {
+		return slug;
+	}
+
+	const truncated = slug.slice(0, maxLength);
+	const lastDash = truncated.lastIndexOf('-');
+	return (lastDash > maxLength / 2 ? truncated.slice(0, lastDash) : truncated).replace(/-+$/, '');
+}
+
+/** Remove characters that aren't allowed in vault file or folder names */
+export function sanitizePathSegment(segment: string): string {
+	return segment
+		.replace(/[\\/:*?"<>|#^[\]]/g, '')
+		.replace(/\s+/g, ' ')
+		.trim()
+		.replace(/^\.+|\.+$/g, '');
+}
+
+/** Helpers available to note path patterns */
+export const NOTE_PATH_HELPERS: Record<string, TemplateHelper> = {
+	slug: (value) => typeof value === 'string' ? slugify(value) : '',
+	lower: (value) => typeof value === 'string' ? value.toLowerCase() : '',
+	upper: (value) => typeof value === 'string' ? value.toUpperCase() : '',
+};
+
+/** Default note path pattern - a flat folder of INC-123.md files */
+export const DEFAULT_NOTE_PATH_PATTERN = '{{reference}}';
+
+/**
+ * Render a note path pattern such as "{{year}}/{{month}}/{{reference}} - {{slug name}}"
+ * into a vault-safe path relative to the incident notes folder, without extension.
+ * Throws TemplateError if the pattern is malformed.
+ */
+export function renderNotePathPattern(pattern: string, incident: FullIncident): string {
+	const created = new Date(incident.created_at);
+	const pad = (n: number) => ('0' + String(n)).slice(-2);
+	const context = {
+		id: incident.id,
+		reference: incident.reference,
+		name: incident.name,
+		status: incident.status,
+		severity: incident.severity,
+		type: incident.incidentType,
+		year: isNaN(created.getTime()) ? '' : String(created.getFullYear()),
+		month: isNaN(created.getTime()) ? '' : pad(created.getMonth() + 1),
+		day: isNaN(created.getTime()) ? '' : pad(created.getDate()),
+	};
+
+	const rendered = renderTemplate(
+		compileTemplate(pattern, Object.keys(NOTE_PATH_HELPERS)),
+		context,
+		NOTE_PATH_HELPERS
+	);
+
+	const segments = rendered
+		.split('/')
+		.map(sanitizePathSegment)
+		.filter(segment => segment.length > 0);
+
+	// Never produce an empty filename - fall back to the reference
+	return segments.length > 0 ? segments.join('/') : sanitizePathSegment(incident.reference);
+}
+
+/** Get the archive rule that applies to an incident, if its status category has one */
+export function getArchiveRule(settings: IncidentIOSyncSettings, incident: FullIncident): ArchiveRule | null {
+	const category = incident.statusCategory;
+	if (category !== 'closed' && category !== 'merged' && category !== 'declined') {
+		return null;
+	}
+	const rule = settings.archiveRules?.[category];
+	return rule && rule.action !== 'keep' ? rule : null;
+}
+
+/** Folder an incident's note belongs in, after applying archive rules */
+export function getIncidentNoteFolder(settings: IncidentIOSyncSettings, incident: FullIncident): string {
+	const rule = getArchiveRule(settings, incident);
+	if (rule?.action === 'move' && rule.folder) {
+		return rule.folder;
+	}
+	return settings.incidentNotesFolder;
+}
+
+/** Build the full vault path (without extension) for an incident note */
+export function buildIncidentNotePath(folder: string, pattern: string, incident: FullIncident): string {
+	let relativePath: string;
+	try {
+		relativePath = renderNotePathPattern(pattern || DEFAULT_NOTE_PATH_PATTERN, incident);
+	} catch (error) {
+		logger.warn(`Invalid note path pattern, using reference: ${error instanceof Error ? error.message : String(error)}`);
+		relativePath = sanitizePathSegment(incident.reference);
+	}
+	return normalizePath(folder ? `${folder}/${relativePath}` : relativePath);
+}
+
+/**
+ * Fast non-cryptographic 53-bit string hash (cyrb53), as a hex string.
+ * Only used to notice when generated note content changes between syncs.
+ */
+export function hashContent(text: string): string {
+	let h1 = 0xdeadbeef;
+	let h2 = 0x41c6ce57;
+	for (let i = 0; i < text.length; i++) {
+		const ch = text.charCodeAt(i);
+		h1 = Math.imul(h1 ^ ch, 2654435761);
+		h2 = Math.imul(h2 ^ ch, 1597334677);
+	}
+	h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+	h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+	return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16);
+}
+
+/**
+ * Record where each incident's note was written, on the incident and on its
+ * daily note entry, so daily-note links point at the actual file wherever the
+ * path pattern (or the user) put it. References repeat across workspaces, so
+ * entries are matched on ID and workspace.
+ */
+export function applyNotePaths(result: SyncResult, notePaths: Map<string, string>): void {
+	for (const incident of result.fullIncidents) {
+		incident.notePath = notePaths.get(incident.id);
+		const incidentResult = result.incidents.find(candidate =>
+			candidate.id === incident.id && candidate.workspace?.id === incident.workspace?.id
+		);
+		if (incidentResult) {
+			incidentResult.notePath = incident.notePath;
+		}
+	}
+}
+
+/** Helpers available to incident note templates */
+export const INCIDENT_TEMPLATE_HELPERS = [
+	'formatDate',
+	'formatDuration',
+	'blockquote',
+	'checkbox',
+	'action',
+	'followUp',
+	'attachment',
+];
+
 export class IncidentNoteManager {
 	private app: App;
 	private settings: IncidentIOSyncSettings;
-
-	constructor(app: App, settings: IncidentIOSyncSettings) {
+	private syncState: SyncState;
+	private noteIndex: IncidentNoteIndex;
+
+	constructor(
+		app: App,
+		settings: IncidentIOSyncSettings,
+		syncState: SyncState = { noteHashes: {}, incidentUpdatedAt: {} },
+		noteIndex: IncidentNoteIndex = new IncidentNoteIndex(app)
+	) {
 		this.app = app;
 		this.settings = settings;
+		this.syncState = syncState;
+		this.noteIndex = noteIndex;
 	}
 
 	updateSettings(settings: IncidentIOSyncSettings): void {
@@ -64,13 +249,24 @@ export class IncidentNoteManager {
 			return null;
 		}
 
+		return this.ensureFolderPath(folderPath);
+	}
+
+	/** Create a folder and any missing parents */
+	private async ensureFolderPath(folderPath: string): Promise<TFolder | null> {
 		const existing = this.app.vault.getAbstractFileByPath(folderPath);
 		if (existing instanceof TFolder) {
 			return existing;
 		}
 
 		try {
-			await this.app.vault.createFolder(folderPath);
+			const parts = folderPath.split('/');
+			for (let i = 1; i <= parts.length; i++) {
+				const partial = parts.slice(0, i).join('/');
+				if (!this.app.vault.getAbstractFileByPath(partial)) {
+					await this.app.vault.createFolder(partial);
+				}
+			}
 			const folder = this.app.vault.getAbstractFileByPath(folderPath);
 			if (folder instanceof TFolder) {
 				return folder;
@@ -82,249 +278,129 @@ export class IncidentNoteManager {
 		}
 	}
 
-	async findExistingNoteByIncidentId(incidentId: string): Promise<TFile | null> {
-		const folderPath = this.settings.incidentNotesFolder;
-		if (!folderPath) {
-			return null;
-		}
-
-		const files = this.app.vault.getMarkdownFiles().filter(f =>
-			f.path.startsWith(folderPath + '/')
-		);
-
-		for (const file of files) {
-			const content = await this.app.vault.read(file);
-			const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---/);
-			if (frontmatterMatch) {
-				const idMatch = frontmatterMatch[1].match(/incident_id:\s*(.+)$/m);
-				if (idMatch && idMatch[1].trim() === incidentId) {
-					return file;
-				}
-			}
+	/** Create the parent folders for a note path */
+	private async ensureParentFolder(notePath: string): Promise<void> {
+		const parent = notePath.split('/').slice(0, -1).join('/');
+		if (parent) {
+			await this.ensureFolderPath(parent);
 		}
-
-		return null;
 	}
 
-	generateFilename(incident: FullIncident): string {
-		// Use the reference as the filename (e.g., INC-123.md)
-		return `${incident.reference}.md`;
+	/** Find an incident's note anywhere in the vault by the incident_id in its frontmatter */
+	findExistingNoteByIncidentId(incidentId: string): TFile | null {
+		return this.noteIndex.get(incidentId);
 	}
 
 	getNotePath(incident: FullIncident): string {
-		const filename = this.generateFilename(incident);
-		return normalizePath(`${this.settings.incidentNotesFolder}/${filename}`);
-	}
-
-	/** Delegates to exported yamlSafeValue function */
-	private yamlSafeValue(value: string | number | undefined): string {
-		return yamlSafeValue(value);
+		const folder = getIncidentNoteFolder(this.settings, incident);
+		return `${buildIncidentNotePath(folder, this.settings.incidentNotePathPattern, incident)}.md`;
 	}
 
-	formatFrontmatter(incident: FullIncident): string {
-		const lines = ['---'];
-
-		// Always include these fields
-		lines.push(`incident_id: ${this.yamlSafeValue(incident.id)}`);
-		lines.push(`reference: ${this.yamlSafeValue(incident.reference)}`);
-		lines.push(`name: ${this.yamlSafeValue(incident.name)}`);
-		lines.push(`created_at: ${this.yamlSafeValue(incident.created_at)}`);
-		lines.push(`status: ${this.yamlSafeValue(incident.status)}`);
-		lines.push(`severity: ${this.yamlSafeValue(incident.severity)}`);
-		lines.push(`url: ${this.yamlSafeValue(incident.url)}`);
-
-		// Optional fields
-		if (incident.updated_at) {
-			lines.push(`updated_at: ${this.yamlSafeValue(incident.updated_at)}`);
-		}
-
-		if (incident.closed_at) {
-			lines.push(`closed_at: ${this.yamlSafeValue(incident.closed_at)}`);
-		}
-
-		if (incident.incidentType) {
-			lines.push(`type: ${this.yamlSafeValue(incident.incidentType)}`);
-		}
-
-		if (incident.durationMinutes !== undefined) {
-			lines.push(`duration_minutes: ${incident.durationMinutes}`);
+	/** Write the plugin-owned frontmatter, merging with any keys the user has added */
+	async updateFrontmatter(file: TFile, incident: FullIncident, mergedIntoLink?: string): Promise<void> {
+		const generated = buildIncidentFrontmatter(incident, this.settings, mergedIntoLink);
+		const noteMappedKeys = this.syncState.noteMappedKeys || {};
+		this.syncState.noteMappedKeys = noteMappedKeys;
+		const managedKeys = getManagedFrontmatterKeys(this.settings, noteMappedKeys[incident.id]);
+		await this.app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+			applyIncidentFrontmatter(frontmatter, generated, managedKeys, incident);
+		});
+
+		const mappedKeys = getMappedFrontmatterKeys(this.settings);
+		if (mappedKeys.length > 0) {
+			noteMappedKeys[incident.id] = mappedKeys;
+		} else {
+			delete noteMappedKeys[incident.id];
 		}
-
-		lines.push('---');
-
-		return lines.join('\n');
 	}
 
-	formatIncidentContent(incident: FullIncident): string {
-		const lines: string[] = [];
-
-		// Frontmatter
-		lines.push(this.formatFrontmatter(incident));
-		lines.push('');
-
-		// Title
-		lines.push(`# ${incident.reference}: ${incident.name}`);
-		lines.push('');
-
-		// Summary as blockquote
-		if (incident.summary) {
-			lines.push(`> ${incident.summary}`);
-			lines.push('');
+	/**
+	 * Load the incident note template. Uses the vault file named in settings,
+	 * or the built-in layout when none is configured.
+	 * Throws TemplateError if the file is missing or malformed.
+	 */
+	async loadTemplate(): Promise<CompiledTemplate> {
+		const templatePath = this.settings.incidentTemplatePath;
+		if (!templatePath) {
+			return compileTemplate(DEFAULT_INCIDENT_TEMPLATE, INCIDENT_TEMPLATE_HELPERS);
 		}
 
-		// Overview table
-		lines.push('## Overview');
-		lines.push('');
-		lines.push('| Field | Value |');
-		lines.push('|-------|-------|');
-		lines.push(`| **Status** | ${incident.status} |`);
-		lines.push(`| **Severity** | ${incident.severity} |`);
-		if (incident.incidentType) {
-			lines.push(`| **Type** | ${incident.incidentType} |`);
-		}
-		if (incident.durationMinutes !== undefined) {
-			lines.push(`| **Duration** | ${this.formatDuration(incident.durationMinutes)} |`);
-		}
-		lines.push(`| **Created** | ${this.formatDate(new Date(incident.created_at))} |`);
-		if (incident.closed_at) {
-			lines.push(`| **Resolved** | ${this.formatDate(new Date(incident.closed_at))} |`);
-		}
-		lines.push(`| **URL** | [View in incident.io](${incident.url}) |`);
-		lines.push('');
-
-		// Timestamps section (if any)
-		if (incident.timestamps.length > 0) {
-			lines.push('## Timestamps');
-			lines.push('');
-			for (const ts of incident.timestamps) {
-				lines.push(`- **${ts.name}:** ${this.formatDate(new Date(ts.value))}`);
-			}
-			lines.push('');
+		const normalized = normalizePath(templatePath);
+		const file = this.app.vault.getAbstractFileByPath(normalized)
+			?? this.app.vault.getAbstractFileByPath(`${normalized}.md`);
+		if (!(file instanceof TFile)) {
+			throw new TemplateError(`Template file not found: ${normalized}`);
 		}
 
-		// Roles section
-		if (incident.roles.length > 0) {
-			lines.push('## Roles');
-			lines.push('');
-			for (const role of incident.roles) {
-				const youMarker = role.isUser ? ' (you)' : '';
-				lines.push(`- **${role.role}:** ${role.assignee}${youMarker}`);
-			}
-			lines.push('');
-		}
-
-		// Custom fields section (if any)
-		if (incident.customFields.length > 0) {
-			lines.push('## Custom Fields');
-			lines.push('');
-			for (const field of incident.customFields) {
-				lines.push(`- **${field.name}:** ${field.value}`);
-			}
-			lines.push('');
-		}
-
-		// Timeline section (chronological - oldest first)
-		if (incident.updates.length > 0) {
-			lines.push('## Timeline');
-			lines.push('');
+		const source = await this.app.vault.cachedRead(file);
+		return compileTemplate(source, INCIDENT_TEMPLATE_HELPERS);
+	}
 
-			// Sort updates chronologically (oldest first)
-			const sortedUpdates = [...incident.updates].sort(
+	/** Values available to incident note templates */
+	buildTemplateContext(
+		incident: FullIncident,
+		mergedIntoLink?: string,
+		lastSynced: string = this.formatDate(new Date())
+	): Record<string, unknown> {
+		return {
+			...incident,
+			mergedIntoLink,
+			// Chronological - oldest first
+			updates: [...incident.updates].sort(
 				(a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
-			);
-
-			for (const update of sortedUpdates) {
-				this.formatUpdate(update, lines);
-			}
-		}
-
-		// Actions section (if any)
-		if (incident.actions.length > 0) {
-			lines.push('## Actions');
-			lines.push('');
-			for (const action of incident.actions) {
-				this.formatAction(action, lines);
-			}
-			lines.push('');
-		}
-
-		// Follow-ups section (if any)
-		if (incident.followUps.length > 0) {
-			lines.push('## Follow-ups');
-			lines.push('');
-			for (const followUp of incident.followUps) {
-				this.formatFollowUp(followUp, lines);
-			}
-			lines.push('');
-		}
-
-		// Attachments section (if any)
-		if (incident.attachments.length > 0) {
-			lines.push('## Attachments');
-			lines.push('');
-			for (const attachment of incident.attachments) {
-				this.formatAttachment(attachment, lines);
-			}
-			lines.push('');
-		}
-
-		// Last synced footer
-		lines.push('---');
-		lines.push(`*Last synced: ${this.formatDate(new Date())}*`);
-		lines.push('');
-
-		return lines.join('\n');
+			),
+			duration: incident.durationMinutes !== undefined ? this.formatDuration(incident.durationMinutes) : '',
+			lastSynced,
+		};
 	}
 
-	private formatUpdate(update: IncidentUpdate, lines: string[]): void {
-		const date = new Date(update.created_at);
-		lines.push(`### ${this.formatDate(date)}`);
-
-		// Status/severity changes
-		if (update.new_incident_status) {
-			lines.push(`**Status changed:** → ${update.new_incident_status.name}`);
-			lines.push('');
-		}
-		if (update.new_severity) {
-			lines.push(`**Severity changed:** → ${update.new_severity.name}`);
-			lines.push('');
-		}
-
-		// Message
-		if (update.message) {
-			lines.push(`> ${update.message.replace(/\n/g, '\n> ')}`);
-		}
-
-		// Author
-		if (update.updater) {
-			lines.push(`— *${update.updater.name}*`);
-		}
+	private buildTemplateHelpers(): Record<string, TemplateHelper> {
+		return {
+			formatDate: (value) => value ? this.formatDate(new Date(value as string)) : '',
+			formatDuration: (value) => typeof value === 'number' ? this.formatDuration(value) : '',
+			blockquote: (value) => `> ${typeof value === 'string' ? value.replace(/\n/g, '\n> ') : ''}`,
+			checkbox: (status) => status === 'completed' ? '[x]' : '[ ]',
+			action: (action) => this.formatAction(action as IncidentAction),
+			followUp: (followUp) => this.formatFollowUp(followUp as FollowUp),
+			attachment: (attachment) => this.formatAttachment(attachment as IncidentAttachment),
+		};
+	}
 
-		lines.push('');
+	formatIncidentContent(
+		incident: FullIncident,
+		template: CompiledTemplate = compileTemplate(DEFAULT_INCIDENT_TEMPLATE, INCIDENT_TEMPLATE_HELPERS),
+		mergedIntoLink?: string,
+		lastSynced?: string
+	): string {
+		// Frontmatter is written separately by updateFrontmatter
+		const context = this.buildTemplateContext(incident, mergedIntoLink, lastSynced);
+		return renderTemplate(template, context, this.buildTemplateHelpers());
 	}
 
-	private formatAction(action: IncidentAction, lines: string[]): void {
+	private formatAction(action: IncidentAction): string {
 		const checkbox = action.status === 'completed' ? '[x]' : '[ ]';
 		const assignee = action.assignee ? ` — *${action.assignee.name}*` : '';
 		const description = action.description || 'Untitled action';
-		lines.push(`- ${checkbox} ${description}${assignee}`);
+		return `- ${checkbox} ${description}${assignee} ${checkboxMarker('action', action.id)}`;
 	}
 
-	private formatFollowUp(followUp: FollowUp, lines: string[]): void {
+	/** A follow-up as a tracked checkbox line, as in the Follow-ups section */
+	formatFollowUp(followUp: FollowUp): string {
 		const checkbox = followUp.status === 'completed' ? '[x]' : '[ ]';
 		const assignee = followUp.assignee ? ` — *${followUp.assignee.name}*` : ' — *Unassigned*';
 
+		const marker = checkboxMarker('follow-up', followUp.id);
+
 		// Include external link if available
 		if (followUp.external_issue_reference?.issue_permalink) {
-			lines.push(`- ${checkbox} [${followUp.title}](${followUp.external_issue_reference.issue_permalink})${assignee}`);
-		} else {
-			lines.push(`- ${checkbox} ${followUp.title}${assignee}`);
+			return `- ${checkbox} [${followUp.title}](${followUp.external_issue_reference.issue_permalink})${assignee} ${marker}`;
 		}
+		return `- ${checkbox} ${followUp.title}${assignee} ${marker}`;
 	}
 
-	private formatAttachment(attachment: IncidentAttachment, lines: string[]): void {
+	private formatAttachment(attachment: IncidentAttachment): string {
 		const title = attachment.resource.title || attachment.resource.resource_type || 'Attachment';
-		lines.push(`- [${title}](${attachment.resource.permalink})`);
+		return `- [${title}](${attachment.resource.permalink})`;
 	}
 
 	/** Delegates to exported formatDate function */
@@ -337,53 +413,168 @@ export class IncidentNoteManager {
 		return formatDuration(minutes);
 	}
 
-	async createOrUpdateIncidentNote(incident: FullIncident): Promise<TFile | null> {
+	/**
+	 * Fingerprint of everything sync would write for an incident. Volatile
+	 * values (the last-synced time) are left out so that an incident which
+	 * hasn't changed always produces the same fingerprint.
+	 */
+	private fingerprintNote(
+		incident: FullIncident,
+		template: CompiledTemplate,
+		notePath: string,
+		mergedIntoLink?: string
+	): string {
+		const body = this.formatIncidentContent(incident, template, mergedIntoLink, '');
+		const frontmatter = buildIncidentFrontmatter(incident, this.settings, mergedIntoLink);
+		return hashContent(`${notePath}\n${JSON.stringify(frontmatter)}\n${body}`);
+	}
+
+	async createOrUpdateIncidentNote(
+		incident: FullIncident,
+		template?: CompiledTemplate
+	): Promise<{ file: TFile; outcome: NoteWriteOutcome } | null> {
+		if (getArchiveRule(this.settings, incident)?.action === 'delete') {
+			await this.deleteIncidentNote(incident);
+			delete this.syncState.noteHashes[incident.id];
+			delete this.syncState.noteMappedKeys?.[incident.id];
+			return null;
+		}
+
 		// Ensure folder exists
 		await this.ensureFolder();
 
+		const compiled = template ?? await this.loadTemplate();
 		const notePath = this.getNotePath(incident);
-		const content = this.formatIncidentContent(incident);
+		const mergedIntoLink = await this.resolveMergedIntoLink(incident, notePath);
+
+		// Skip the write entirely if the note is where we left it and nothing
+		// we'd write has changed since the last sync
+		const existingByPath = this.app.vault.getAbstractFileByPath(notePath);
+		const hash = this.fingerprintNote(incident, compiled, notePath, mergedIntoLink);
+		if (existingByPath instanceof TFile && this.syncState.noteHashes[incident.id] === hash) {
+			return { file: existingByPath, outcome: 'unchanged' };
+		}
+
+		const content = this.formatIncidentContent(incident, compiled, mergedIntoLink);
 
 		// Try direct path lookup first (most common case - avoids iterating all files)
+		// then fall back to searching by frontmatter ID (handles renamed files and
+		// notes written under a previous path pattern)
+		let file = existingByPath instanceof TFile
+			? existingByPath
+			: this.findExistingNoteByIncidentId(incident.id);
+		let outcome: NoteWriteOutcome;
+
+		try {
+			if (file) {
+				file = await this.moveNote(file, notePath);
+				await this.app.vault.process(file, (data) => removeDuplicateCheckboxes(mergeManagedContent(data, content)));
+				outcome = 'updated';
+			} else {
+				await this.ensureParentFolder(notePath);
+				file = await this.app.vault.create(notePath, content);
+				this.noteIndex.set(incident.id, file);
+				outcome = 'created';
+			}
+
+			await this.updateFrontmatter(file, incident, mergedIntoLink);
+			this.syncState.noteHashes[incident.id] = hash;
+			return { file, outcome };
+		} catch (error) {
+			logger.error('Error writing incident note', error);
+			return null;
+		}
+	}
+
+	/** Remove an incident's note (if any), respecting the user's trash preference */
+	private async deleteIncidentNote(incident: FullIncident): Promise<void> {
+		const notePath = this.getNotePath(incident);
 		const existingByPath = this.app.vault.getAbstractFileByPath(notePath);
-		if (existingByPath instanceof TFile) {
-			await this.app.vault.process(existingByPath, () => content);
-			return existingByPath;
+		const file = existingByPath instanceof TFile
+			? existingByPath
+			: this.findExistingNoteByIncidentId(incident.id);
+		if (!file) {
+			return;
 		}
 
-		// Fallback: search by frontmatter ID (handles manually renamed files)
-		const existingNote = await this.findExistingNoteByIncidentId(incident.id);
-		if (existingNote) {
-			await this.app.vault.process(existingNote, () => content);
-			return existingNote;
+		try {
+			await this.app.fileManager.trashFile(file);
+			this.noteIndex.remove(file);
+			logger.debug('Deleted incident note per archive rules');
+		} catch (error) {
+			logger.error('Error deleting incident note', error);
+		}
+	}
+
+	/**
+	 * Link to the incident a merged incident was merged into: a wikilink if we
+	 * have a note for it, otherwise a link to incident.io.
+	 */
+	private async resolveMergedIntoLink(incident: FullIncident, sourcePath: string): Promise<string | undefined> {
+		const target = incident.mergedInto;
+		if (!target) {
+			return undefined;
+		}
+
+		const targetNote = target.id ? this.findExistingNoteByIncidentId(target.id) : null;
+		if (targetNote) {
+			const linktext = this.app.metadataCache.fileToLinktext(targetNote, sourcePath, true);
+			return `[[${linktext}|${target.reference}]]`;
+		}
+		return `[${target.reference}](${target.url})`;
+	}
+
+	/**
+	 * Move a note to its expected path through the file manager, so links to it
+	 * are updated. Leaves the note where it is if the move fails.
+	 */
+	private async moveNote(file: TFile, notePath: string): Promise<TFile> {
+		if (file.path === notePath) {
+			return file;
 		}
 
-		// Create new note
 		try {
-			return await this.app.vault.create(notePath, content);
+			await this.ensureParentFolder(notePath);
+			await this.app.fileManager.renameFile(file, notePath);
+			logger.debug('Moved incident note to match path pattern');
 		} catch (error) {
-			logger.error('Error creating incident note', error);
-			return null;
+			logger.error('Error moving incident note', error);
 		}
+		return file;
 	}
 
-	async syncIncidents(incidents: FullIncident[]): Promise<Map<string, string>> {
-		// Returns a map of incident ID -> note path
-		const notePathMap = new Map<string, string>();
+	/**
+	 * Create or update notes for all incidents.
+	 * Throws TemplateError before writing anything if the template is broken.
+	 * Throws CancelledError between notes if the signal is aborted, so each
+	 * note is either fully written (body and frontmatter) or left as it was.
+	 */
+	async syncIncidents(incidents: FullIncident[], signal?: AbortSignal): Promise<IncidentNoteSyncSummary> {
+		const summary: IncidentNoteSyncSummary = {
+			notePaths: new Map<string, string>(),
+			created: 0,
+			updated: 0,
+			unchanged: 0,
+		};
+		const template = await this.loadTemplate();
 
 		for (const incident of incidents) {
-			const file = await this.createOrUpdateIncidentNote(incident);
-			if (file) {
-				notePathMap.set(incident.id, file.path);
+			throwIfAborted(signal);
+			const written = await this.createOrUpdateIncidentNote(incident, template);
+			if (written) {
+				summary.notePaths.set(incident.id, written.file.path);
+				summary[written.outcome]++;
 			}
 		}
 
-		return notePathMap;
+		return summary;
 	}
 
 	getWikilinkPath(incident: FullIncident): string {
 		// Return path for wikilink without .md extension
-		const filename = incident.reference;
-		return normalizePath(`${this.settings.incidentNotesFolder}/${filename}`);
+		if (incident.notePath) {
+			return incident.notePath.replace(/\.md$/, '');
+		}
+		return this.getNotePath(incident).replace(/\.md$/, '');
 	}
 }
@@ -1,8 +1,41 @@
-import { Notice, Plugin } from 'obsidian';
-import { IncidentIOSyncSettings, DEFAULT_SETTINGS, SECRET_KEY_API } from './types';
-import { IncidentIOAPI, HistoricalSyncOptions } from './api';
+import { Notice, Plugin, TFile, debounce } from 'obsidian';
+import {
+	IncidentIOSyncSettings,
+	DEFAULT_SETTINGS,
+	SECRET_KEY_API,
+	SyncResult,
+	SyncState,
+	IncidentNoteSyncSummary,
+	IncidentDetails,
+	IncidentFilters,
+	IncidentIOUser,
+	FullIncident,
+	WorkspaceProfile,
+	Incident,
+	IncidentStatus,
+	IncidentSeverity,
+	IncidentType,
+	CustomField,
+} from './types';
+import { IncidentIOAPI, IncidentIOAPIOptions, HistoricalSyncOptions, SyncUser, apiOptionsFromSettings, resolveLegacyUser } from './api';
 import { DailyNoteManager } from './daily-note';
-import { IncidentNoteManager } from './incident-notes';
+import { IncidentNoteManager, applyNotePaths, hashContent } from './incident-notes';
+import { IncidentNoteIndex, getIncidentIdFromFrontmatter } from './note-index';
+import { formatDataAge, getCachedIncidentDetails, getOfflineFallback, restoreSyncState } from './sync-cache';
+import { CheckboxSyncManager, NoteTask, findNewTasks, replaceTaskLine } from './checkbox-sync';
+import { CreateFollowUpsModal, DeclareIncidentModal, FollowUpSelection, PostUpdateModal } from './modals';
+import {
+	MAIN_WORKSPACE_ID,
+	getEnabledWorkspaces,
+	getMainWorkspaceLabel,
+	getNoteWorkspaceId,
+	getWorkspaceSecretKey,
+	getWorkspaceSettings,
+	labelSyncResult,
+	mergeSyncResults,
+} from './workspaces';
+import { AuthenticationError, CancelledError, ForbiddenError, describeApiError } from './errors';
+import { DEFAULT_INCIDENT_TEMPLATE, TemplateError } from './template';
 import { IncidentIOSyncSettingTab } from './settings';
 import { logger } from './logger';
 
@@ -10,16 +43,50 @@ import { logger } from './logger';
 const STATUS_SUCCESS_CLEAR_MS = 5000;
 const STATUS_ERROR_CLEAR_MS = 8000;
 const AUTO_SYNC_STARTUP_DELAY_MS = 1000;
+const REINITIALIZE_API_DELAY_MS = 1000;
+
+/** Summarise note writes, e.g. "1 created, 2 updated, 5 unchanged" */
+function formatNoteSummary(summary: IncidentNoteSyncSummary): string {
+	const parts = [];
+	if (summary.created > 0) {
+		parts.push(`${summary.created} created`);
+	}
+	if (summary.updated > 0) {
+		parts.push(`${summary.updated} updated`);
+	}
+	if (summary.unchanged > 0) {
+		parts.push(`${summary.unchanged} unchanged`);
+	}
+	return parts.join(', ');
+}
+
+// Shape of the plugin's data file: settings plus persisted sync state
+type StoredData = Partial<IncidentIOSyncSettings> & { syncState?: Partial<SyncState> };
 
 export default class IncidentIOSyncPlugin extends Plugin {
 	settings: IncidentIOSyncSettings = DEFAULT_SETTINGS;
+	private syncState: SyncState = { noteHashes: {}, incidentUpdatedAt: {} };
+	// Incident details from earlier syncs, reused while an incident's updated_at is unchanged
+	private incidentDetails = new Map<string, IncidentDetails>();
 	private api: IncidentIOAPI | null = null;
 	private dailyNoteManager: DailyNoteManager | null = null;
 	private incidentNoteManager: IncidentNoteManager | null = null;
+	private noteIndex: IncidentNoteIndex | null = null;
+	// Clients for additional workspaces with an API key, keyed by workspace ID
+	private workspaceApis = new Map<string, IncidentIOAPI>();
+	// Fingerprint of the keys and connection settings the clients were built with
+	private apiFingerprint = '';
+	// reinitializeApi once typing in a connection setting has paused
+	requestReinitializeApi = debounce(() => {
+		void this.reinitializeApi();
+	}, REINITIALIZE_API_DELAY_MS, true);
 	private autoSyncInterval: number | null = null;
 	private statusBarItem: HTMLElement | null = null;
 	private ribbonIconEl: HTMLElement | null = null;
 	private isSyncing = false;
+	private isAutoSync = false;
+	// Aborted to cancel the running sync
+	private syncController: AbortController | null = null;
 	private hasSecretStorage = false;
 
 	/**
@@ -57,7 +124,7 @@ export default class IncidentIOSyncPlugin extends Plugin {
 			// Fallback: store in settings (plaintext - not ideal but functional)
 			if (key === SECRET_KEY_API) {
 				this.settings.apiKey = value;
-				await this.saveData(this.settings);
+				await this.persistData();
 			}
 		}
 	}
@@ -72,7 +139,7 @@ export default class IncidentIOSyncPlugin extends Plugin {
 			// Fallback: clear from settings
 			if (key === SECRET_KEY_API) {
 				delete this.settings.apiKey;
-				await this.saveData(this.settings);
+				await this.persistData();
 			}
 		}
 	}
@@ -92,11 +159,38 @@ export default class IncidentIOSyncPlugin extends Plugin {
 		// Initialize managers
 		await this.initializeApi();
 		this.dailyNoteManager = new DailyNoteManager(this.app, this.settings);
-		this.incidentNoteManager = new IncidentNoteManager(this.app, this.settings);
+		const noteIndex = new IncidentNoteIndex(this.app);
+		this.noteIndex = noteIndex;
+		this.incidentNoteManager = new IncidentNoteManager(this.app, this.settings, this.syncState, noteIndex);
+
+		// Keep the incident note index current as notes are created, moved and edited
+		this.registerEvent(this.app.vault.on('create', file => noteIndex.update(file)));
+		this.registerEvent(this.app.vault.on('rename', file => noteIndex.update(file)));
+		this.registerEvent(this.app.vault.on('delete', file => noteIndex.remove(file)));
+		this.registerEvent(this.app.metadataCache.on('changed', file => noteIndex.update(file)));
+
+		// Send ticked follow-up and action checkboxes in incident notes back to incident.io
+		const checkboxSync = new CheckboxSyncManager(this.app, {
+			getIncidentDetails: incidentId => this.incidentDetails.get(incidentId),
+			getApi: file => this.getApiForNote(file),
+		});
+		this.registerEvent(this.app.vault.on('modify', file => {
+			if (!this.settings.experimentalWriteBack || !this.settings.syncCheckboxes || !(file instanceof TFile)) {
+				return;
+			}
+			const incidentId = noteIndex.getIncidentId(file);
+			if (incidentId) {
+				void checkboxSync.handleModify(file, incidentId);
+			}
+		}));
 
 		// Status bar
 		this.statusBarItem = this.addStatusBarItem();
 		this.updateStatusBar('idle');
+		// Clicking the status bar while syncing cancels the sync
+		this.registerDomEvent(this.statusBarItem, 'click', () => {
+			this.cancelSync();
+		});
 
 		// Ribbon icon (shield for incidents)
 		this.ribbonIconEl = this.addRibbonIcon('shield', 'Sync incidents to daily note', () => {
@@ -112,6 +206,70 @@ export default class IncidentIOSyncPlugin extends Plugin {
 			},
 		});
 
+		this.addCommand({
+			id: 'full-resync',
+			name: 'Full resync (refetch all incidents and rewrite notes)',
+			callback: () => {
+				void this.syncToDaily({ fullResync: true });
+			},
+		});
+
+		this.addCommand({
+			id: 'cancel-sync',
+			name: 'Cancel sync',
+			checkCallback: (checking) => {
+				if (!this.isSyncing) {
+					return false;
+				}
+				if (!checking) {
+					this.cancelSync();
+				}
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: 'post-incident-update',
+			name: 'Post update to incident',
+			checkCallback: (checking) => {
+				const file = this.app.workspace.getActiveFile();
+				const incidentId = this.getActiveIncidentId();
+				if (!this.settings.experimentalWriteBack || !file || !incidentId) {
+					return false;
+				}
+				if (!checking) {
+					void this.openPostUpdateModal(file, incidentId);
+				}
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: 'create-follow-ups-from-tasks',
+			name: 'Create follow-ups from tasks',
+			checkCallback: (checking) => {
+				const file = this.app.workspace.getActiveFile();
+				const incidentId = this.getActiveIncidentId();
+				if (!this.settings.experimentalWriteBack || !file || !incidentId) {
+					return false;
+				}
+				if (!checking) {
+					void this.openCreateFollowUpsModal(file, incidentId);
+				}
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: 'declare-incident',
+			name: 'Declare incident',
+			callback: () => {
+				// Selected text makes a starting point for the summary
+				const selection = this.app.workspace.activeEditor?.editor?.getSelection() || '';
+				void this.openDeclareIncidentModal(selection.trim());
+			},
+		});
+
 		this.addCommand({
 			id: 'clear-incidents-section',
 			name: 'Clear incidents section from daily note',
@@ -131,11 +289,57 @@ export default class IncidentIOSyncPlugin extends Plugin {
 	}
 
 	onunload(): void {
+		this.requestReinitializeApi.cancel();
 		this.clearAutoSync();
+		this.cancelSync();
 	}
 
 	async loadSettings(): Promise<void> {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+		const stored = await this.loadData() as StoredData | null;
+		const { syncState, ...data } = stored || {};
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
+		this.syncState = restoreSyncState(syncState);
+
+		// Seed the detail cache from the last sync so a restart doesn't refetch everything
+		this.incidentDetails = getCachedIncidentDetails(this.syncState.lastResult);
+
+		// Nested settings need their own copy so edits never touch the defaults
+		this.settings.archiveRules = {
+			closed: { ...DEFAULT_SETTINGS.archiveRules.closed, ...data.archiveRules?.closed },
+			merged: { ...DEFAULT_SETTINGS.archiveRules.merged, ...data.archiveRules?.merged },
+			declined: { ...DEFAULT_SETTINGS.archiveRules.declined, ...data.archiveRules?.declined },
+		};
+		this.settings.customFieldMappings = (data.customFieldMappings || []).map(m => ({ ...m }));
+		this.settings.customHeaders = (data.customHeaders || []).map(h => ({ ...h }));
+		this.settings.customFieldFilters = (data.customFieldFilters || []).map(f => ({ ...f }));
+		this.settings.teamMembers = (data.teamMembers || []).map(m => ({ ...m }));
+		const copyFilters = (filters: IncidentFilters = DEFAULT_SETTINGS.incidentFilters): IncidentFilters => ({
+			severities: { include: [...filters.severities.include], exclude: [...filters.severities.exclude] },
+			incidentTypes: { include: [...filters.incidentTypes.include], exclude: [...filters.incidentTypes.exclude] },
+			statusCategories: { include: [...filters.statusCategories.include], exclude: [...filters.statusCategories.exclude] },
+			customFields: {
+				include: filters.customFields.include.map(f => ({ ...f })),
+				exclude: filters.customFields.exclude.map(f => ({ ...f })),
+			},
+		});
+		this.settings.incidentFilters = copyFilters(data.incidentFilters);
+		this.settings.workspaces = (data.workspaces || []).map(w => ({
+			...w,
+			roleFilter: { roleTypes: [...w.roleFilter.roleTypes], customRoleNames: [...w.roleFilter.customRoleNames] },
+			customFieldFilters: w.customFieldFilters.map(f => ({ ...f })),
+			// Profiles saved before workspaces had their own filters sync everything
+			incidentFilters: copyFilters(w.incidentFilters),
+		}));
+		this.settings.roleFilter = data.roleFilter
+			? { roleTypes: [...(data.roleFilter.roleTypes || [])], customRoleNames: [...(data.roleFilter.customRoleNames || [])] }
+			// Historical sync used to include every role; keep that for existing setups
+			: { roleTypes: data.historicalSyncDays ? ['lead', 'reporter', 'custom'] : ['lead'], customRoleNames: [] };
+	}
+
+	/** Save settings and sync state together - they share the plugin's data file */
+	private async persistData(): Promise<void> {
+		const data: StoredData = { ...this.settings, syncState: this.syncState };
+		await this.saveData(data);
 	}
 
 	/**
@@ -153,7 +357,7 @@ export default class IncidentIOSyncPlugin extends Plugin {
 					this.settings.apiKeyConfigured = true;
 					// Clear the plaintext key from settings
 					delete this.settings.apiKey;
-					await this.saveData(this.settings);
+					await this.persistData();
 					new Notice('Incident.io: migrated API key to secure storage');
 					logger.info('API key migration complete');
 				} catch (error) {
@@ -162,40 +366,69 @@ export default class IncidentIOSyncPlugin extends Plugin {
 			} else {
 				// SecretStorage not available - keep using plaintext but mark as configured
 				this.settings.apiKeyConfigured = true;
-				await this.saveData(this.settings);
+				await this.persistData();
 				logger.info('API key configured (plaintext fallback - upgrade Obsidian for secure storage)');
 			}
 		}
 	}
 
 	/**
-	 * Initialize the API client with the key from SecretStorage or settings fallback.
+	 * Build a client for the main workspace and each additional workspace with
+	 * an API key, from SecretStorage or the settings fallback. Returns whether
+	 * anything changed; if not, the existing clients are kept.
 	 */
-	private async initializeApi(): Promise<void> {
-		if (!this.settings.apiKeyConfigured) {
-			this.api = null;
-			return;
+	private async initializeApi(): Promise<boolean> {
+		let apiKey: string | null = null;
+		if (this.settings.apiKeyConfigured) {
+			apiKey = await this.getSecret(SECRET_KEY_API);
+			if (!apiKey) {
+				// Key was supposed to be configured but not found
+				logger.warn('API key marked as configured but not found');
+			}
 		}
 
-		const apiKey = await this.getSecret(SECRET_KEY_API);
-		if (apiKey) {
-			this.api = new IncidentIOAPI(apiKey);
-		} else {
-			// Key was supposed to be configured but not found
-			logger.warn('API key marked as configured but not found');
-			this.api = null;
+		const workspaceClients: Array<{ id: string; apiKey: string; options: IncidentIOAPIOptions }> = [];
+		for (const profile of this.settings.workspaces) {
+			if (!profile.apiKeyConfigured) {
+				continue;
+			}
+			const workspaceKey = await this.getSecret(getWorkspaceSecretKey(profile.id));
+			if (workspaceKey) {
+				const workspaceSettings = getWorkspaceSettings(this.settings, profile);
+				workspaceClients.push({ id: profile.id, apiKey: workspaceKey, options: apiOptionsFromSettings(workspaceSettings) });
+			} else {
+				logger.warn('Workspace API key marked as configured but not found');
+			}
+		}
+
+		const options = apiOptionsFromSettings(this.settings);
+		const fingerprint = hashContent(JSON.stringify({ apiKey, options, workspaceClients }));
+		if (fingerprint === this.apiFingerprint) {
+			return false;
 		}
+		this.apiFingerprint = fingerprint;
+
+		this.api = apiKey ? new IncidentIOAPI(apiKey, options) : null;
+		this.workspaceApis.clear();
+		for (const client of workspaceClients) {
+			this.workspaceApis.set(client.id, new IncidentIOAPI(client.apiKey, client.options));
+		}
+		return true;
 	}
 
 	/**
-	 * Reinitialize the API client (called from settings when key changes).
+	 * Reinitialize the API clients (called from settings when a key or
+	 * connection setting changes).
 	 */
 	async reinitializeApi(): Promise<void> {
-		await this.initializeApi();
+		// Don't let a sync started with the old key or URLs carry on
+		if (await this.initializeApi()) {
+			this.cancelSync();
+		}
 	}
 
 	async saveSettings(): Promise<void> {
-		await this.saveData(this.settings);
+		await this.persistData();
 
 		// Note: API client is NOT re-initialized here because the API key
 		// is stored in SecretStorage, not in settings. Call reinitializeApi()
@@ -215,11 +448,12 @@ export default class IncidentIOSyncPlugin extends Plugin {
 		this.setupAutoSync();
 	}
 
-	private updateStatusBar(status: 'idle' | 'syncing' | 'success' | 'error', message?: string): void {
+	private updateStatusBar(status: 'idle' | 'syncing' | 'success' | 'error' | 'stale', message?: string): void {
 		if (!this.statusBarItem) return;
 
 		this.statusBarItem.empty();
-		this.statusBarItem.removeClass('syncing', 'success', 'error');
+		this.statusBarItem.removeClass('syncing', 'success', 'error', 'stale', 'mod-clickable');
+		this.statusBarItem.removeAttribute('aria-label');
 		this.statusBarItem.addClass('incident-io-sync-status');
 
 		let text = 'incident.io: ';
@@ -229,7 +463,8 @@ export default class IncidentIOSyncPlugin extends Plugin {
 				break;
 			case 'syncing':
 				text += 'Syncing...';
-				this.statusBarItem.addClass('syncing');
+				this.statusBarItem.addClass('syncing', 'mod-clickable');
+				this.statusBarItem.setAttribute('aria-label', 'Click to cancel sync');
 				break;
 			case 'success':
 				text += message || 'Synced';
@@ -241,6 +476,11 @@ export default class IncidentIOSyncPlugin extends Plugin {
 				this.statusBarItem.addClass('error');
 				window.setTimeout(() => this.updateStatusBar('idle'), STATUS_ERROR_CLEAR_MS);
 				break;
+			case 'stale':
+				// Stays until the next sync so it's clear the data is out of date
+				text += message || 'Offline';
+				this.statusBarItem.addClass('stale');
+				break;
 		}
 
 		this.statusBarItem.setText(text);
@@ -249,9 +489,14 @@ export default class IncidentIOSyncPlugin extends Plugin {
 	private setupAutoSync(): void {
 		this.clearAutoSync();
 
+		// Auto-sync was switched off while one of its syncs was running
+		if (!this.settings.autoSyncEnabled && this.isAutoSync) {
+			this.cancelSync();
+		}
+
 		if (this.settings.autoSyncEnabled && this.settings.autoSyncFrequency > 0 && this.api) {
 			this.autoSyncInterval = window.setInterval(() => {
-				void this.syncToDaily().catch((error: unknown) => {
+				void this.syncToDaily({ auto: true }).catch((error: unknown) => {
 					logger.error('Auto-sync failed', error);
 					// Don't show notice for auto-sync failures - just log
 				});
@@ -276,7 +521,12 @@ export default class IncidentIOSyncPlugin extends Plugin {
 		};
 	}
 
-	async syncToDaily(): Promise<void> {
+	/**
+	 * Sync incidents to the daily note and incident notes. A full resync
+	 * ignores cached incident details and note hashes, refetching and
+	 * rewriting everything.
+	 */
+	async syncToDaily(options: { fullResync?: boolean; auto?: boolean } = {}): Promise<void> {
 		if (this.isSyncing) {
 			new Notice('Incident.io: sync already in progress');
 			return;
@@ -294,26 +544,73 @@ export default class IncidentIOSyncPlugin extends Plugin {
 		}
 
 		this.isSyncing = true;
+		this.isAutoSync = options.auto === true;
+		const controller = new AbortController();
+		this.syncController = controller;
+		const signal = controller.signal;
 		this.updateStatusBar('syncing');
 
 		try {
-			const historicalOptions = this.getHistoricalSyncOptions();
-			const result = await this.api.syncData(this.settings.userIdentifier, historicalOptions);
+			if (options.fullResync) {
+				this.incidentDetails.clear();
+				this.syncState.incidentUpdatedAt = {};
+				this.syncState.workspaceIncidentUpdatedAt = {};
+				this.syncState.noteHashes = {};
+			}
+
+			// Fall back to the last successful sync if the API can't be reached,
+			// so the daily note and incident notes still get written
+			let result: SyncResult;
+			let staleSince: string | null = null;
+			let workspaceFailures: string[] = [];
+			try {
+				({ result, failures: workspaceFailures } = await this.fetchAllWorkspaces(this.api, signal));
+			} catch (error) {
+				const cached = getOfflineFallback(error, this.syncState.lastResult);
+				if (!cached) {
+					throw error;
+				}
+				logger.warn('Sync failed, using cached data from the last successful sync', error);
+				result = cached.result;
+				staleSince = cached.syncedAt;
+			}
 
 			// Step 1: Create/update individual incident note files
+			let noteSummary: IncidentNoteSyncSummary | null = null;
 			if (result.fullIncidents.length > 0) {
-				await this.incidentNoteManager.syncIncidents(result.fullIncidents);
+				try {
+					noteSummary = await this.syncIncidentNotes(this.incidentNoteManager, result, signal);
+					applyNotePaths(result, noteSummary.notePaths);
+				} catch (error) {
+					// A broken template shouldn't stop the daily note from updating
+					if (!(error instanceof TemplateError)) {
+						throw error;
+					}
+					new Notice(`incident.io: incident note template error: ${error.message}`);
+					logger.error('Incident note template error', error);
+				}
 			}
 
 			// Step 2: Update today's daily note with wikilinks
-			const success = await this.dailyNoteManager.updateDailyNote(result);
+			const success = await this.dailyNoteManager.updateDailyNote(result, undefined, signal);
 
 			// Step 3: Backfill previous daily notes if enabled
 			if (this.settings.updatePreviousDailyNotes && result.fullIncidents.length > 0) {
-				await this.backfillDailyNotes(result);
+				await this.backfillDailyNotes(result, signal);
+			}
+
+			// Remember what was fetched and written, for the next incremental sync
+			// and for working offline
+			if (!staleSince) {
+				this.syncState.lastResult = { syncedAt: new Date().toISOString(), result };
 			}
+			await this.persistData();
 
-			if (success) {
+			if (success && staleSince) {
+				const age = formatDataAge(staleSince);
+				this.updateStatusBar('stale', `Offline, data ${age} old`);
+				new Notice(`incident.io: couldn't reach incident.io, using data from ${age} ago`);
+			} else if (success) {
 				const incidentCount = result.fullIncidents.length;
 				const activeCount = result.fullIncidents.filter(
 					inc => inc.statusCategory === 'live' || inc.statusCategory === 'triage'
@@ -336,22 +633,466 @@ export default class IncidentIOSyncPlugin extends Plugin {
 				}
 
 				this.updateStatusBar('success', message);
-				new Notice(`incident.io: ${message}`);
+				const noteCounts = noteSummary ? formatNoteSummary(noteSummary) : '';
+				new Notice(`incident.io: ${message}${noteCounts ? ` (notes: ${noteCounts})` : ''}`);
+				if (workspaceFailures.length > 0) {
+					new Notice(`incident.io: couldn't sync ${workspaceFailures.join('; ')}`);
+				}
 			} else {
 				this.updateStatusBar('error', 'No daily note');
 				new Notice('Incident.io: no daily note found for today');
 			}
 		} catch (error) {
-			const message = error instanceof Error ? error.message : 'Unknown error';
-			this.updateStatusBar('error', 'Sync failed');
+			if (error instanceof CancelledError) {
+				// Notes are written one at a time, so everything written so far is
+				// complete - keep their hashes so they aren't rewritten next time
+				this.updateStatusBar('idle');
+				new Notice('Incident.io: sync cancelled');
+				logger.info('Sync cancelled');
+				await this.persistData();
+				return;
+			}
+
+			const message = describeApiError(error);
+			if (error instanceof AuthenticationError) {
+				this.updateStatusBar('error', 'API key revoked');
+			} else if (error instanceof ForbiddenError) {
+				this.updateStatusBar('error', 'Missing API scope');
+			} else {
+				this.updateStatusBar('error', 'Sync failed');
+			}
 			new Notice(`incident.io sync failed: ${message}`);
 			logger.error('Sync error', error);
 		} finally {
 			this.isSyncing = false;
+			this.isAutoSync = false;
+			this.syncController = null;
+		}
+	}
+
+	/**
+	 * The user chosen in settings. Installs from before users could be chosen
+	 * still have a legacy identifier: it's resolved once and the match is
+	 * saved, unless it matches more than one user.
+	 */
+	private async resolveSyncUser(api: IncidentIOAPI, signal: AbortSignal): Promise<SyncUser> {
+		if (this.settings.userId) {
+			return { id: this.settings.userId, email: this.settings.userEmail };
+		}
+
+		const identifier = this.settings.userIdentifier.trim();
+		if (!identifier) {
+			throw new Error('No user selected - choose your user in settings');
+		}
+
+		const matches = await api.findUsers(identifier, signal);
+		const user = resolveLegacyUser(matches, identifier);
+		if (!user) {
+			throw new Error(matches.length === 0
+				? `Could not find user matching: ${identifier}`
+				: `"${identifier}" matches ${matches.length} users - choose your user in settings`);
+		}
+
+		logger.info('Saved the user matched by the legacy identifier');
+		this.settings.userId = user.id;
+		this.settings.userEmail = user.email;
+		await this.persistData();
+		return user;
+	}
+
+	/** The incident the active note is for, from the incident_id in its frontmatter */
+	private getActiveIncidentId(): string | null {
+		const file = this.app.workspace.getActiveFile();
+		if (!file) {
+			return null;
+		}
+		return getIncidentIdFromFrontmatter(this.app.metadataCache.getFileCache(file)?.frontmatter);
+	}
+
+	private async openPostUpdateModal(file: TFile, incidentId: string): Promise<void> {
+		let api: IncidentIOAPI;
+		try {
+			api = this.getApiForNote(file);
+		} catch (error) {
+			new Notice(`Incident.io: ${describeApiError(error)}`);
+			return;
+		}
+
+		let options: [Incident, IncidentStatus[], IncidentSeverity[]];
+		try {
+			options = await Promise.all([
+				api.getIncident(incidentId),
+				api.getIncidentStatuses(),
+				api.getSeverities(),
+			]);
+		} catch (error) {
+			logger.error('Failed to load incident for update', error);
+			new Notice(`Incident.io: couldn't load the incident: ${describeApiError(error)}`);
+			return;
+		}
+
+		const [incident, statuses, severities] = options;
+		new PostUpdateModal(this.app, {
+			reference: incident.reference,
+			statuses,
+			severities,
+			onSubmit: async (update) => {
+				await api.postIncidentUpdate(incidentId, update);
+				new Notice(`Incident.io: posted update to ${incident.reference}`);
+				await this.refreshIncidentNote(api, incidentId);
+			},
+		}).open();
+	}
+
+	private async openDeclareIncidentModal(summary: string): Promise<void> {
+		const api = this.api;
+		if (!api) {
+			new Notice('Incident.io: API key not configured - add it in settings');
+			return;
+		}
+
+		let options: [IncidentSeverity[], IncidentType[], CustomField[]];
+		try {
+			options = await Promise.all([
+				api.getSeverities(),
+				api.getIncidentTypes(),
+				api.getRequiredCustomFields(),
+			]);
+		} catch (error) {
+			logger.error('Failed to load incident options', error);
+			new Notice(`Incident.io: couldn't load severities and fields: ${describeApiError(error)}`);
+			return;
+		}
+
+		const [severities, incidentTypes, customFields] = options;
+		// One key per dialog, so retrying after an error can't declare the incident twice
+		const idempotencyKey = `obsidian-${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+		new DeclareIncidentModal(this.app, {
+			summary,
+			severities,
+			incidentTypes,
+			customFields,
+			onSubmit: async (draft) => {
+				const incident = await api.createIncident(draft, customFields, idempotencyKey);
+				new Notice(`Incident.io: declared ${incident.reference}`);
+				await this.addDeclaredIncident(api, incident);
+			},
+		}).open();
+	}
+
+	/** Write a newly declared incident's note and link it into today's daily note */
+	private async addDeclaredIncident(api: IncidentIOAPI, incident: Incident): Promise<void> {
+		if (!this.incidentNoteManager || !this.dailyNoteManager) {
+			return;
+		}
+
+		try {
+			const workspace = getMainWorkspaceLabel(this.settings) ?? undefined;
+			const declared: FullIncident = {
+				...await api.getFullIncidentDetails(incident, this.settings.userId),
+				workspace,
+			};
+			const { updates, followUps, actions, attachments, timestamps } = declared;
+			this.incidentDetails.set(declared.id, { updates, followUps, actions, attachments, timestamps });
+
+			const summary = await this.syncIncidentNotes(this.incidentNoteManager, {
+				onCall: null,
+				incidents: [],
+				fullIncidents: [declared],
+			});
+			declared.notePath = summary.notePaths.get(declared.id);
+
+			// Add it to the last sync's result, so the daily note keeps everything else
+			const previous = this.syncState.lastResult;
+			const result: SyncResult = {
+				onCall: previous?.result.onCall ?? null,
+				incidents: (previous?.result.incidents || []).concat({
+					id: declared.id,
+					reference: declared.reference,
+					name: declared.name,
+					status: declared.status,
+					workspace,
+					notePath: declared.notePath,
+				}),
+				fullIncidents: (previous?.result.fullIncidents || []).concat(declared),
+			};
+			await this.dailyNoteManager.updateDailyNote(result);
+			this.syncState.lastResult = { syncedAt: previous?.syncedAt ?? new Date().toISOString(), result };
+			await this.persistData();
+		} catch (error) {
+			logger.error('Failed to write declared incident note', error);
+			new Notice(`Incident.io: incident declared, but its note couldn't be written: ${describeApiError(error)}`);
+		}
+	}
+
+	private async openCreateFollowUpsModal(file: TFile, incidentId: string): Promise<void> {
+		const tasks = findNewTasks(await this.app.vault.read(file));
+		if (tasks.length === 0) {
+			new Notice('Incident.io: no new tasks to turn into follow-ups');
+			return;
+		}
+
+		let api: IncidentIOAPI;
+		try {
+			api = this.getApiForNote(file);
+		} catch (error) {
+			new Notice(`Incident.io: ${describeApiError(error)}`);
+			return;
+		}
+		if (!this.incidentNoteManager) {
+			return;
+		}
+
+		let options: [Incident, IncidentIOUser[]];
+		try {
+			options = await Promise.all([api.getIncident(incidentId), api.getUsers()]);
+		} catch (error) {
+			logger.error('Failed to load incident for follow-ups', error);
+			new Notice(`Incident.io: couldn't load the incident: ${describeApiError(error)}`);
+			return;
+		}
+
+		const [incident, users] = options;
+		const noteManager = this.incidentNoteManager;
+		// Tasks already created, so retrying after an error doesn't create them twice
+		const created = new Set<NoteTask>();
+		new CreateFollowUpsModal(this.app, {
+			reference: incident.reference,
+			tasks,
+			users,
+			onSubmit: async (selections: FollowUpSelection[]) => {
+				for (const { task, assigneeId } of selections) {
+					if (created.has(task)) {
+						continue;
+					}
+					const followUp = await api.createFollowUp(incidentId, task.title, assigneeId);
+					created.add(task);
+					// Record it before rewriting the line, so checkbox sync sees it as synced
+					this.incidentDetails.get(incidentId)?.followUps.push(followUp);
+					const line = noteManager.formatFollowUp(followUp);
+					await this.app.vault.process(file, content => replaceTaskLine(content, task, line));
+				}
+				new Notice(`Incident.io: created ${created.size} follow-up${created.size === 1 ? '' : 's'} on ${incident.reference}`);
+			},
+		}).open();
+	}
+
+	/**
+	 * Refetch one incident and rewrite its note, so changes made from Obsidian
+	 * show in the timeline straight away rather than on the next sync
+	 */
+	private async refreshIncidentNote(api: IncidentIOAPI, incidentId: string): Promise<void> {
+		if (!this.incidentNoteManager) {
+			return;
+		}
+
+		const lastResult = this.syncState.lastResult?.result;
+		const previous = lastResult?.fullIncidents.find(candidate => candidate.id === incidentId);
+		const profile = this.settings.workspaces.find(workspace => workspace.id === previous?.workspace?.id);
+		const userId = profile ? profile.userId : this.settings.userId;
+		const teamMemberIds = !profile && this.settings.teamModeEnabled
+			? new Set(this.settings.teamMembers.map(member => member.id))
+			: undefined;
+
+		try {
+			const incident = await api.getIncident(incidentId);
+			const refreshed: FullIncident = {
+				...await api.getFullIncidentDetails(incident, userId, undefined, undefined, teamMemberIds),
+				inclusion: previous?.inclusion,
+				workspace: previous?.workspace,
+			};
+			const { updates, followUps, actions, attachments, timestamps } = refreshed;
+			this.incidentDetails.set(incidentId, { updates, followUps, actions, attachments, timestamps });
+
+			const summary = await this.syncIncidentNotes(this.incidentNoteManager, {
+				onCall: null,
+				incidents: [],
+				fullIncidents: [refreshed],
+			});
+			refreshed.notePath = summary.notePaths.get(incidentId) ?? previous?.notePath;
+			if (lastResult && previous) {
+				lastResult.fullIncidents = lastResult.fullIncidents.map(candidate => candidate.id === incidentId ? refreshed : candidate);
+			}
+			await this.persistData();
+		} catch (error) {
+			logger.error('Failed to refresh incident note', error);
+			new Notice(`Incident.io: update posted, but the note couldn't be refreshed: ${describeApiError(error)}`);
+		}
+	}
+
+	/**
+	 * Client for the workspace an incident note belongs to, going by the note.
+	 * Throws rather than guessing when the workspace can't be told, or has no
+	 * API key.
+	 */
+	private getApiForNote(file: TFile): IncidentIOAPI {
+		const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+		const workspaceId = getNoteWorkspaceId(this.settings, file.path, frontmatter);
+		if (!workspaceId) {
+			throw new Error('can\'t tell which workspace this note belongs to - set its workspace in the frontmatter');
+		}
+		const api = workspaceId === MAIN_WORKSPACE_ID ? this.api : this.workspaceApis.get(workspaceId);
+		if (!api) {
+			throw new Error('API key not configured - add it in settings');
 		}
+		return api;
 	}
 
-	private async backfillDailyNotes(result: import('./types').SyncResult): Promise<void> {
+	/**
+	 * Fetch the main workspace, then each additional one. A failing additional
+	 * workspace doesn't fail the sync: its incidents from the last sync are
+	 * kept and the failure is returned for the notice.
+	 */
+	private async fetchAllWorkspaces(
+		api: IncidentIOAPI,
+		signal: AbortSignal
+	): Promise<{ result: SyncResult; failures: string[] }> {
+		const user = await this.resolveSyncUser(api, signal);
+		const team = await this.resolveTeam(api, signal);
+		const mainResult = await api.syncData(user, {
+			historical: this.getHistoricalSyncOptions(),
+			cache: {
+				updatedAt: this.syncState.incidentUpdatedAt,
+				details: this.incidentDetails,
+			},
+			roleFilter: this.settings.roleFilter,
+			includeSubscribed: this.settings.includeSubscribed,
+			customFieldFilters: this.settings.customFieldFilters,
+			team,
+			filters: this.settings.incidentFilters,
+			upcomingShifts: this.settings.upcomingShiftCount,
+		}, signal);
+
+		const mainLabel = getMainWorkspaceLabel(this.settings);
+		if (!mainLabel) {
+			return { result: mainResult, failures: [] };
+		}
+
+		const results = [labelSyncResult(mainResult, mainLabel)];
+		const failures: string[] = [];
+		for (const profile of getEnabledWorkspaces(this.settings)) {
+			try {
+				const workspaceResult = await this.fetchWorkspace(profile, signal);
+				results.push(labelSyncResult(workspaceResult, { id: profile.id, name: profile.name }));
+			} catch (error) {
+				if (error instanceof CancelledError) {
+					throw error;
+				}
+				logger.error('Workspace sync failed', error);
+				failures.push(`${profile.name}: ${describeApiError(error)}`);
+
+				const previous = this.syncState.lastResult?.result;
+				if (previous) {
+					results.push({
+						onCall: null,
+						incidents: previous.incidents.filter(incident => incident.workspace?.id === profile.id),
+						fullIncidents: previous.fullIncidents.filter(incident => incident.workspace?.id === profile.id),
+					});
+				}
+			}
+		}
+		return { result: mergeSyncResults(results), failures };
+	}
+
+	private async fetchWorkspace(profile: WorkspaceProfile, signal: AbortSignal): Promise<SyncResult> {
+		const api = this.workspaceApis.get(profile.id);
+		if (!api) {
+			throw new Error('API key not configured');
+		}
+		if (!profile.userId) {
+			throw new Error('No user selected - choose your user in settings');
+		}
+
+		// Each workspace remembers its own incidents, so one workspace's sync
+		// doesn't forget another's as having dropped out of the window
+		const workspaceUpdatedAt = this.syncState.workspaceIncidentUpdatedAt || {};
+		this.syncState.workspaceIncidentUpdatedAt = workspaceUpdatedAt;
+		workspaceUpdatedAt[profile.id] = workspaceUpdatedAt[profile.id] || {};
+
+		return api.syncData({ id: profile.userId, email: profile.userEmail }, {
+			historical: this.getHistoricalSyncOptions(),
+			cache: {
+				updatedAt: workspaceUpdatedAt[profile.id],
+				details: this.incidentDetails,
+			},
+			roleFilter: profile.roleFilter,
+			includeSubscribed: profile.includeSubscribed,
+			customFieldFilters: profile.customFieldFilters,
+			filters: profile.incidentFilters,
+			upcomingShifts: this.settings.upcomingShiftCount,
+		}, signal);
+	}
+
+	/**
+	 * Write incident notes for every workspace. Additional workspaces get a
+	 * manager with their own notes folder; incidents from a workspace that has
+	 * since been removed are skipped.
+	 */
+	private async syncIncidentNotes(
+		mainManager: IncidentNoteManager,
+		result: SyncResult,
+		signal?: AbortSignal
+	): Promise<IncidentNoteSyncSummary> {
+		const summary: IncidentNoteSyncSummary = { notePaths: new Map(), created: 0, updated: 0, unchanged: 0 };
+		const addSummary = (workspaceSummary: IncidentNoteSyncSummary) => {
+			workspaceSummary.notePaths.forEach((path, id) => summary.notePaths.set(id, path));
+			summary.created += workspaceSummary.created;
+			summary.updated += workspaceSummary.updated;
+			summary.unchanged += workspaceSummary.unchanged;
+		};
+
+		const isMain = (incident: FullIncident) => !incident.workspace || incident.workspace.id === MAIN_WORKSPACE_ID;
+		addSummary(await mainManager.syncIncidents(result.fullIncidents.filter(isMain), signal));
+
+		for (const profile of this.settings.workspaces) {
+			const incidents = result.fullIncidents.filter(incident => incident.workspace?.id === profile.id);
+			if (incidents.length === 0 || !this.noteIndex) {
+				continue;
+			}
+			const manager = new IncidentNoteManager(
+				this.app,
+				getWorkspaceSettings(this.settings, profile),
+				this.syncState,
+				this.noteIndex
+			);
+			addSummary(await manager.syncIncidents(incidents, signal));
+		}
+		return summary;
+	}
+
+	/**
+	 * Team members to sync alongside the user, or undefined outside team mode.
+	 * Members from the team's catalog entry are looked up on every sync so
+	 * changes in incident.io are picked up.
+	 */
+	private async resolveTeam(api: IncidentIOAPI, signal: AbortSignal): Promise<IncidentIOUser[] | undefined> {
+		if (!this.settings.teamModeEnabled) {
+			return undefined;
+		}
+
+		const team = this.settings.teamMembers.map(member => ({ ...member }));
+		const catalogEntryId = this.settings.teamCatalogEntryId.trim();
+		if (catalogEntryId) {
+			for (const member of await api.getCatalogEntryMembers(catalogEntryId, signal)) {
+				if (!team.some(existing => existing.id === member.id)) {
+					team.push(member);
+				}
+			}
+		}
+		return team;
+	}
+
+	/** Cancel the running sync, if any. Returns whether there was one to cancel. */
+	cancelSync(): boolean {
+		if (!this.syncController) {
+			return false;
+		}
+		this.syncController.abort();
+		return true;
+	}
+
+	/** Rewrite the daily notes of the past historicalSyncDays days from the same sync result */
+	private async backfillDailyNotes(result: SyncResult, signal?: AbortSignal): Promise<void> {
 		if (!this.dailyNoteManager) {
 			return;
 		}
@@ -376,12 +1117,44 @@ export default class IncidentIOSyncPlugin extends Plugin {
 			// The filtering in formatSyncResultForDate will:
 			// - Include only incidents that were active on this date
 			// - Remove the section entirely if no incidents were active (if omitEmptySections is enabled)
-			await this.dailyNoteManager.updateDailyNoteForDate(date, result);
+			await this.dailyNoteManager.updateDailyNoteForDate(date, result, signal);
 		}
 
 		logger.info('Backfill complete');
 	}
 
+	/**
+	 * Write the built-in incident note template to the configured template path
+	 * so it can be customised. Won't overwrite an existing file.
+	 */
+	async createDefaultTemplate(): Promise<boolean> {
+		const templatePath = this.settings.incidentTemplatePath;
+		if (!templatePath) {
+			new Notice('Incident.io: set a template path first');
+			return false;
+		}
+
+		const path = templatePath.endsWith('.md') ? templatePath : `${templatePath}.md`;
+		if (this.app.vault.getAbstractFileByPath(path)) {
+			new Notice(`Incident.io: ${path} already exists`);
+			return false;
+		}
+
+		try {
+			const folder = path.split('/').slice(0, -1).join('/');
+			if (folder && !this.app.vault.getAbstractFileByPath(folder)) {
+				await this.app.vault.createFolder(folder);
+			}
+			await this.app.vault.create(path, DEFAULT_INCIDENT_TEMPLATE);
+			new Notice(`Incident.io: created template at ${path}`);
+			return true;
+		} catch (error) {
+			logger.error('Failed to create default template', error);
+			new Notice('Incident.io: failed to create template');
+			return false;
+		}
+	}
+
 	async clearIncidentsSection(): Promise<boolean> {
 		if (!this.dailyNoteManager) {
 			return false;
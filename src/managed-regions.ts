@@ -0,0 +1,154 @@
+// Managed regions: the parts of an incident note body that sync owns and rewrites.
+// Everything outside these regions belongs to the user and is preserved across syncs.
+
+const REGION_START = 'incident-io:start';
+const REGION_END = 'incident-io:end';
+
+const FRONTMATTER_PATTERN = /^---\n([\s\S]*?)\n---(?:\n|$)/;
+const REGION_PATTERN = /<!-- incident-io:start ([\w-]+) -->[\s\S]*?<!-- incident-io:end \1 -->/;
+
+export function regionStart(name: string): string {
+	return `<!-- ${REGION_START} ${name} -->`;
+}
+
+export function regionEnd(name: string): string {
+	return `<!-- ${REGION_END} ${name} -->`;
+}
+
+/** Wrap lines of generated content in start/end markers for the named region */
+export function wrapRegion(name: string, lines: string[]): string[] {
+	return [regionStart(name), ...lines, regionEnd(name)];
+}
+
+/** Split a note into its frontmatter body (without fences) and the rest */
+export function splitFrontmatter(content: string): { frontmatter: string | null; body: string } {
+	const match = content.match(FRONTMATTER_PATTERN);
+	if (!match) {
+		return { frontmatter: null, body: content };
+	}
+	return { frontmatter: match[1], body: content.slice(match[0].length) };
+}
+
+interface BodySegment {
+	region: string | null; // null for user text between regions
+	text: string;
+}
+
+function parseBodySegments(body: string): BodySegment[] {
+	const segments: BodySegment[] = [];
+	const pattern = new RegExp(REGION_PATTERN.source, 'g');
+	let lastIndex = 0;
+	let match: RegExpExecArray | null;
+
+	while ((match = pattern.exec(body)) !== null) {
+		if (match.index > lastIndex) {
+			segments.push({ region: null, text: body.slice(lastIndex, match.index) });
+		}
+		segments.push({ region: match[1], text: match[0] });
+		lastIndex = match.index + match[0].length;
+	}
+
+	if (lastIndex < body.length) {
+		segments.push({ region: null, text: body.slice(lastIndex) });
+	}
+
+	return segments;
+}
+
+/** Check whether a note body contains any managed regions */
+export function hasManagedRegions(content: string): boolean {
+	return parseBodySegments(content).some(s => s.region !== null);
+}
+
+/**
+ * Merge the managed regions of a freshly generated body into an existing body.
+ * - Regions present in both are replaced in place.
+ * - Regions only in the generated body are inserted after the nearest
+ *   preceding region that already exists (or before the first region).
+ * - Regions no longer generated are removed.
+ * - Text outside regions in the existing body is kept exactly; text outside
+ *   regions in the generated body is scaffolding for new notes and is ignored.
+ */
+export function mergeRegions(existingBody: string, generatedBody: string): string {
+	const generatedRegions = parseBodySegments(generatedBody).filter(s => s.region !== null);
+	const generatedByName = new Map(generatedRegions.map(s => [s.region as string, s.text]));
+	const existingSegments = parseBodySegments(existingBody);
+	const existingNames = new Set(existingSegments.filter(s => s.region !== null).map(s => s.region as string));
+
+	// Work out where to insert regions the existing note doesn't have yet
+	const insertAfter = new Map<string, string[]>();
+	const insertAtStart: string[] = [];
+	let previous: string | null = null;
+	for (const segment of generatedRegions) {
+		const name = segment.region as string;
+		if (existingNames.has(name)) {
+			previous = name;
+			continue;
+		}
+		if (previous === null) {
+			insertAtStart.push(segment.text);
+		} else {
+			const pending = insertAfter.get(previous) || [];
+			pending.push(segment.text);
+			insertAfter.set(previous, pending);
+		}
+	}
+
+	const output: string[] = [];
+	let insertedAtStart = false;
+	let skipLeadingNewlines = false;
+
+	for (const segment of existingSegments) {
+		if (segment.region === null) {
+			output.push(skipLeadingNewlines ? segment.text.replace(/^\n{1,2}/, '') : segment.text);
+			skipLeadingNewlines = false;
+			continue;
+		}
+
+		if (!insertedAtStart && insertAtStart.length > 0) {
+			output.push(insertAtStart.join('\n\n') + '\n\n');
+			insertedAtStart = true;
+		}
+
+		const replacement = generatedByName.get(segment.region);
+		if (replacement === undefined) {
+			// Region no longer generated - drop it along with its separating blank line
+			skipLeadingNewlines = true;
+			continue;
+		}
+
+		skipLeadingNewlines = false;
+		output.push(replacement);
+		for (const text of insertAfter.get(segment.region) || []) {
+			output.push('\n\n' + text);
+		}
+	}
+
+	return output.join('');
+}
+
+// Heading for the old body of a note written before managed regions existed
+export const PREVIOUS_CONTENT_HEADING = '## Previous note content';
+
+/**
+ * Merge a freshly generated note body into the existing note content so that
+ * only managed regions change. The existing frontmatter is kept as-is (it is
+ * updated separately through processFrontMatter).
+ * Notes written before managed regions existed get the generated body, with
+ * their old body kept below it under its own heading, since the user may have
+ * written in it. Later syncs leave that section alone like any other user text.
+ * A template without regions owns the whole body, so it replaces it.
+ */
+export function mergeManagedContent(existing: string, generatedBody: string): string {
+	const { frontmatter, body } = splitFrontmatter(existing);
+	let mergedBody: string;
+	if (hasManagedRegions(body)) {
+		mergedBody = mergeRegions(body, generatedBody);
+	} else if (body.trim() && hasManagedRegions(generatedBody)) {
+		mergedBody = `${generatedBody.replace(/\n+$/, '')}\n\n${PREVIOUS_CONTENT_HEADING}\n\n${body.trim()}\n`;
+	} else {
+		mergedBody = generatedBody;
+	}
+
+	return frontmatter === null ? mergedBody : `---\n${frontmatter}\n---\n${mergedBody}`;
+}
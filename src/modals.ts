@@ -0,0 +1,390 @@
+import { App, Modal, Setting } from 'obsidian';
+import {
+	CustomField,
+	IncidentIOUser,
+	IncidentSeverity,
+	IncidentStatus,
+	IncidentType,
+	NewIncident,
+	NewIncidentUpdate,
+} from './types';
+import { describeApiError } from './errors';
+import { NoteTask } from './checkbox-sync';
+
+// Dialogs the plugin opens on the user's behalf
+
+export interface ConfirmOptions {
+	title: string;
+	message: string;
+	confirmText: string;
+}
+
+/** Ask the user to confirm. Resolves false if they cancel or close the dialog. */
+export function confirm(app: App, options: ConfirmOptions): Promise<boolean> {
+	return new Promise(resolve => {
+		new ConfirmModal(app, options, resolve).open();
+	});
+}
+
+class ConfirmModal extends Modal {
+	private options: ConfirmOptions;
+	private onResult: (confirmed: boolean) => void;
+	private confirmed = false;
+
+	constructor(app: App, options: ConfirmOptions, onResult: (confirmed: boolean) => void) {
+		super(app);
+		this.options = options;
+		this.onResult = onResult;
+	}
+
+	onOpen(): void {
+		this.titleEl.setText(this.options.title);
+		this.contentEl.createEl('p', { text: this.options.message });
+
+		new Setting(this.contentEl)
+			.addButton(button => button
+				.setButtonText('Cancel')
+				.onClick(() => this.close()))
+			.addButton(button => button
+				.setButtonText(this.options.confirmText)
+				.setCta()
+				.onClick(() => {
+					this.confirmed = true;
+					this.close();
+				}));
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+		this.onResult(this.confirmed);
+	}
+}
+
+export interface PostUpdateOptions {
+	reference: string;
+	statuses: IncidentStatus[];
+	severities: IncidentSeverity[];
+	// Posts the update; a rejection is shown in the dialog so it can be retried
+	onSubmit: (update: NewIncidentUpdate) => Promise<void>;
+}
+
+/** Draft an incident update, with an optional status and severity change */
+export class PostUpdateModal extends Modal {
+	private options: PostUpdateOptions;
+	private update: NewIncidentUpdate = { message: '' };
+
+	constructor(app: App, options: PostUpdateOptions) {
+		super(app);
+		this.options = options;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		this.modalEl.addClass('incident-io-modal');
+		this.titleEl.setText(`Post update to ${this.options.reference}`);
+
+		new Setting(contentEl)
+			.setName('Message')
+			.addTextArea(text => {
+				text
+					.setPlaceholder('What has changed?')
+					.onChange((value) => {
+						this.update.message = value;
+					});
+				text.inputEl.rows = 6;
+				text.inputEl.addClass('incident-io-modal-textarea');
+			});
+
+		new Setting(contentEl)
+			.setName('Status')
+			.addDropdown(dropdown => {
+				dropdown.addOption('', 'No change');
+				for (const status of this.options.statuses) {
+					dropdown.addOption(status.id, status.name);
+				}
+				dropdown.onChange((value) => {
+					this.update.statusId = value || undefined;
+				});
+			});
+
+		new Setting(contentEl)
+			.setName('Severity')
+			.addDropdown(dropdown => {
+				dropdown.addOption('', 'No change');
+				for (const severity of this.options.severities) {
+					dropdown.addOption(severity.id, severity.name);
+				}
+				dropdown.onChange((value) => {
+					this.update.severityId = value || undefined;
+				});
+			});
+
+		const errorEl = contentEl.createDiv('incident-io-modal-error');
+		errorEl.hide();
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Cancel')
+				.onClick(() => this.close()))
+			.addButton(button => button
+				.setButtonText('Post update')
+				.setCta()
+				.onClick(async () => {
+					if (!this.update.message.trim() && !this.update.statusId && !this.update.severityId) {
+						errorEl.setText('Write a message or choose a new status or severity');
+						errorEl.show();
+						return;
+					}
+
+					button.setButtonText('Posting...');
+					button.setDisabled(true);
+					try {
+						await this.options.onSubmit({ ...this.update });
+						this.close();
+					} catch (error) {
+						errorEl.setText(`Couldn't post update: ${describeApiError(error)}`);
+						errorEl.show();
+						button.setButtonText('Post update');
+						button.setDisabled(false);
+					}
+				}));
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
+
+export interface DeclareIncidentOptions {
+	summary: string; // Pre-filled, e.g. from the editor selection
+	severities: IncidentSeverity[];
+	incidentTypes: IncidentType[];
+	customFields: CustomField[]; // Fields that must be filled in to declare
+	// Declares the incident; a rejection is shown in the dialog so it can be retried
+	onSubmit: (incident: NewIncident) => Promise<void>;
+}
+
+/** Declare a new incident, filling in its severity, type and required custom fields */
+export class DeclareIncidentModal extends Modal {
+	private options: DeclareIncidentOptions;
+	private incident: NewIncident;
+
+	constructor(app: App, options: DeclareIncidentOptions) {
+		super(app);
+		this.options = options;
+		this.incident = {
+			name: '',
+			summary: options.summary,
+			severityId: options.severities[0]?.id || '',
+			customFieldValues: {},
+		};
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		this.modalEl.addClass('incident-io-modal');
+		this.titleEl.setText('Declare incident');
+
+		new Setting(contentEl)
+			.setName('Name')
+			.addText(text => text
+				.setPlaceholder('What is happening?')
+				.onChange((value) => {
+					this.incident.name = value;
+				}));
+
+		new Setting(contentEl)
+			.setName('Summary')
+			.addTextArea(text => {
+				text
+					.setValue(this.incident.summary)
+					.onChange((value) => {
+						this.incident.summary = value;
+					});
+				text.inputEl.rows = 6;
+				text.inputEl.addClass('incident-io-modal-textarea');
+			});
+
+		new Setting(contentEl)
+			.setName('Severity')
+			.addDropdown(dropdown => {
+				for (const severity of this.options.severities) {
+					dropdown.addOption(severity.id, severity.name);
+				}
+				dropdown
+					.setValue(this.incident.severityId)
+					.onChange((value) => {
+						this.incident.severityId = value;
+					});
+			});
+
+		if (this.options.incidentTypes.length > 0) {
+			new Setting(contentEl)
+				.setName('Type')
+				.addDropdown(dropdown => {
+					dropdown.addOption('', 'Default');
+					for (const incidentType of this.options.incidentTypes) {
+						dropdown.addOption(incidentType.id, incidentType.name);
+					}
+					dropdown.onChange((value) => {
+						this.incident.incidentTypeId = value || undefined;
+					});
+				});
+		}
+
+		for (const field of this.options.customFields) {
+			const setting = new Setting(contentEl)
+				.setName(field.name)
+				.setDesc(field.description || '');
+			const setValue = (value: string) => {
+				this.incident.customFieldValues[field.id] = value;
+			};
+			if (field.options) {
+				setting.addDropdown(dropdown => {
+					dropdown.addOption('', 'Choose...');
+					for (const option of field.options || []) {
+						dropdown.addOption(option.id, option.value);
+					}
+					dropdown.onChange(setValue);
+				});
+			} else {
+				setting.addText(text => text.onChange(setValue));
+			}
+		}
+
+		const errorEl = contentEl.createDiv('incident-io-modal-error');
+		errorEl.hide();
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Cancel')
+				.onClick(() => this.close()))
+			.addButton(button => button
+				.setButtonText('Declare incident')
+				.setCta()
+				.onClick(async () => {
+					const missing = this.options.customFields
+						.filter(field => !(this.incident.customFieldValues[field.id] || '').trim())
+						.map(field => field.name);
+					if (!this.incident.name.trim() || !this.incident.severityId) {
+						errorEl.setText('Give the incident a name and severity');
+						errorEl.show();
+						return;
+					}
+					if (missing.length > 0) {
+						errorEl.setText(`Fill in ${missing.join(', ')}`);
+						errorEl.show();
+						return;
+					}
+
+					button.setButtonText('Declaring...');
+					button.setDisabled(true);
+					try {
+						await this.options.onSubmit({
+							...this.incident,
+							customFieldValues: { ...this.incident.customFieldValues },
+						});
+						this.close();
+					} catch (error) {
+						errorEl.setText(`Couldn't declare incident: ${describeApiError(error)}`);
+						errorEl.show();
+						button.setButtonText('Declare incident');
+						button.setDisabled(false);
+					}
+				}));
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
+
+// A task chosen to become a follow-up, and who it's assigned to
+export interface FollowUpSelection {
+	task: NoteTask;
+	assigneeId?: string;
+}
+
+export interface CreateFollowUpsOptions {
+	reference: string;
+	tasks: NoteTask[];
+	users: IncidentIOUser[];
+	// Creates the follow-ups; a rejection is shown in the dialog so it can be retried
+	onSubmit: (selections: FollowUpSelection[]) => Promise<void>;
+}
+
+/** Choose which tasks in a note become follow-ups, and an assignee for each */
+export class CreateFollowUpsModal extends Modal {
+	private options: CreateFollowUpsOptions;
+	private selections: Array<FollowUpSelection & { included: boolean }>;
+
+	constructor(app: App, options: CreateFollowUpsOptions) {
+		super(app);
+		this.options = options;
+		this.selections = options.tasks.map(task => ({ task, included: true }));
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		this.modalEl.addClass('incident-io-modal');
+		this.titleEl.setText(`Create follow-ups on ${this.options.reference}`);
+
+		const users = [...this.options.users].sort((a, b) => a.name.localeCompare(b.name));
+		for (const selection of this.selections) {
+			new Setting(contentEl)
+				.setName(selection.task.title)
+				.addDropdown(dropdown => {
+					dropdown.addOption('', 'Unassigned');
+					for (const user of users) {
+						dropdown.addOption(user.id, user.name);
+					}
+					dropdown.onChange((value) => {
+						selection.assigneeId = value || undefined;
+					});
+				})
+				.addToggle(toggle => toggle
+					.setTooltip('Create this follow-up')
+					.setValue(selection.included)
+					.onChange((value) => {
+						selection.included = value;
+					}));
+		}
+
+		const errorEl = contentEl.createDiv('incident-io-modal-error');
+		errorEl.hide();
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Cancel')
+				.onClick(() => this.close()))
+			.addButton(button => button
+				.setButtonText('Create follow-ups')
+				.setCta()
+				.onClick(async () => {
+					const chosen = this.selections
+						.filter(selection => selection.included)
+						.map(({ task, assigneeId }) => ({ task, assigneeId }));
+					if (chosen.length === 0) {
+						errorEl.setText('Choose at least one task');
+						errorEl.show();
+						return;
+					}
+
+					button.setButtonText('Creating...');
+					button.setDisabled(true);
+					try {
+						await this.options.onSubmit(chosen);
+						this.close();
+					} catch (error) {
+						errorEl.setText(`Couldn't create follow-ups: ${describeApiError(error)}`);
+						errorEl.show();
+						button.setButtonText('Create follow-ups');
+						button.setDisabled(false);
+					}
+				}));
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
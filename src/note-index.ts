@@ -0,0 +1,115 @@
+import { App, TAbstractFile, TFile } from 'obsidian';
+
+// In-memory index of incident notes by the incident_id in their frontmatter.
+// Built from metadataCache on first use and kept current from vault and
+// metadata events, so notes can be found wherever the user has moved them
+// without reading any files.
+
+// Exported pure functions for testing
+
+/** Read the incident ID from a note's parsed frontmatter, if it has one */
+export function getIncidentIdFromFrontmatter(frontmatter: unknown): string | null {
+	if (!frontmatter || typeof frontmatter !== 'object') {
+		return null;
+	}
+	const value = (frontmatter as Record<string, unknown>).incident_id;
+	if (typeof value === 'string') {
+		return value.trim() || null;
+	}
+	if (typeof value === 'number') {
+		return String(value);
+	}
+	return null;
+}
+
+export class IncidentNoteIndex {
+	private app: App;
+	private filesById = new Map<string, TFile>();
+	private idsByFile = new Map<TFile, string>();
+	private built = false;
+
+	constructor(app: App) {
+		this.app = app;
+	}
+
+	/** Look up the note for an incident, or null if there isn't one */
+	get(incidentId: string): TFile | null {
+		this.ensureBuilt();
+		const file = this.filesById.get(incidentId);
+		if (!file) {
+			return null;
+		}
+		// Guard against missed delete events
+		if (this.app.vault.getAbstractFileByPath(file.path) !== file) {
+			this.remove(file);
+			return null;
+		}
+		return file;
+	}
+
+	/** The incident a note is for, or null if it isn't an incident note */
+	getIncidentId(file: TFile): string | null {
+		this.ensureBuilt();
+		return this.idsByFile.get(file) ?? null;
+	}
+
+	/**
+	 * Record a note the plugin has just written. Its frontmatter won't be in
+	 * metadataCache yet, so the changed event can't be relied on to index it.
+	 */
+	set(incidentId: string, file: TFile): void {
+		// Build first, or building later would drop this entry for want of frontmatter
+		this.ensureBuilt();
+		this.remove(file);
+		this.filesById.set(incidentId, file);
+		this.idsByFile.set(file, incidentId);
+	}
+
+	/** Re-read a file's incident ID from metadataCache (create, rename and changed events) */
+	update(file: TAbstractFile): void {
+		if (!this.built || !(file instanceof TFile) || file.extension !== 'md') {
+			return;
+		}
+		const incidentId = getIncidentIdFromFrontmatter(this.app.metadataCache.getFileCache(file)?.frontmatter);
+		if (incidentId === this.idsByFile.get(file)) {
+			return;
+		}
+		this.remove(file);
+		if (incidentId && !this.filesById.has(incidentId)) {
+			this.filesById.set(incidentId, file);
+			this.idsByFile.set(file, incidentId);
+		}
+	}
+
+	/** Forget a file (delete events) */
+	remove(file: TAbstractFile): void {
+		if (!(file instanceof TFile)) {
+			return;
+		}
+		const incidentId = this.idsByFile.get(file);
+		if (incidentId === undefined) {
+			return;
+		}
+		this.idsByFile.delete(file);
+		if (this.filesById.get(incidentId) === file) {
+			this.filesById.delete(incidentId);
+		}
+	}
+
+	/** Drop everything; the index is rebuilt on next lookup */
+	clear(): void {
+		this.filesById.clear();
+		this.idsByFile.clear();
+		this.built = false;
+	}
+
+	private ensureBuilt(): void {
+		if (this.built) {
+			return;
+		}
+		this.built = true;
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			this.update(file);
+		}
+	}
+}
@@ -0,0 +1,177 @@
+import { CancelledError, throwIfAborted } from './errors';
+
+// Request scheduler shared by every call an IncidentIOAPI makes. It caps the
+// number of requests in flight and spaces them out with a token bucket. When
+// incident.io answers 429 the bucket pauses for the Retry-After period and
+// halves its rate, so the whole sync slows down together; successful requests
+// gradually restore the rate.
+
+// Default spacing - well under incident.io's per-key limit
+const DEFAULT_REQUESTS_PER_SECOND = 10;
+const MIN_REQUESTS_PER_SECOND = 0.5;
+// How much of the configured rate each success wins back after a slowdown
+const RATE_RECOVERY_FRACTION = 0.05;
+// Pause used when a 429 doesn't say how long to wait
+const DEFAULT_RATE_LIMIT_PAUSE_MS = 1000;
+
+/** Wait for ms milliseconds, rejecting with CancelledError if the signal aborts first */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+	return new Promise((resolve, reject) => {
+		if (signal?.aborted) {
+			reject(new CancelledError());
+			return;
+		}
+		const onAbort = () => {
+			clearTimeout(timer);
+			reject(new CancelledError());
+		};
+		const timer = setTimeout(() => {
+			signal?.removeEventListener('abort', onAbort);
+			resolve();
+		}, ms);
+		signal?.addEventListener('abort', onAbort, { once: true });
+	});
+}
+
+/**
+ * Token bucket with an adaptive rate. Time is passed in so it can be tested
+ * without timers. Exported for testing.
+ */
+export class TokenBucket {
+	private readonly maxRate: number;
+	private readonly capacity: number;
+	private rate: number;
+	private tokens: number;
+	private lastRefill: number;
+	private pausedUntil = 0;
+
+	constructor(requestsPerSecond: number, capacity: number, now: number) {
+		this.maxRate = requestsPerSecond;
+		this.rate = requestsPerSecond;
+		this.capacity = capacity;
+		this.tokens = capacity;
+		this.lastRefill = now;
+	}
+
+	/** Current rate in requests per second */
+	get currentRate(): number {
+		return this.rate;
+	}
+
+	/**
+	 * Take a token if one is available. Returns 0 on success, otherwise the
+	 * number of milliseconds to wait before trying again.
+	 */
+	take(now: number): number {
+		if (now < this.pausedUntil) {
+			return this.pausedUntil - now;
+		}
+		this.refill(now);
+		if (this.tokens >= 1) {
+			this.tokens -= 1;
+			return 0;
+		}
+		return Math.ceil(((1 - this.tokens) / this.rate) * 1000);
+	}
+
+	/** A request was rate limited: stop for pauseMs, empty the bucket and halve the rate */
+	penalize(now: number, pauseMs: number): void {
+		this.refill(now);
+		this.pausedUntil = Math.max(this.pausedUntil, now + pauseMs);
+		this.tokens = 0;
+		this.rate = Math.max(MIN_REQUESTS_PER_SECOND, this.rate / 2);
+	}
+
+	/** A request succeeded: creep back towards the configured rate */
+	reward(): void {
+		this.rate = Math.min(this.maxRate, this.rate + this.maxRate * RATE_RECOVERY_FRACTION);
+	}
+
+	private refill(now: number): void {
+		const elapsedSeconds = Math.max(0, now - Math.max(this.lastRefill, this.pausedUntil)) / 1000;
+		this.tokens = Math.min(this.capacity, this.tokens + elapsedSeconds * this.rate);
+		this.lastRefill = now;
+	}
+}
+
+export interface RequestSchedulerOptions {
+	maxConcurrent: number;
+	requestsPerSecond?: number;
+}
+
+export class RequestScheduler {
+	private maxConcurrent: number;
+	private active = 0;
+	private waiting: Array<() => void> = [];
+	private bucket: TokenBucket;
+
+	constructor(options: RequestSchedulerOptions) {
+		this.maxConcurrent = Math.max(1, options.maxConcurrent);
+		const rate = options.requestsPerSecond || DEFAULT_REQUESTS_PER_SECOND;
+		this.bucket = new TokenBucket(rate, Math.max(this.maxConcurrent, 1), Date.now());
+	}
+
+	/**
+	 * Run a request once a concurrency slot and a rate-limit token are free.
+	 * Rejects with CancelledError if the signal aborts while it's waiting.
+	 */
+	async schedule<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+		await this.acquireSlot(signal);
+		try {
+			await this.acquireToken(signal);
+			return await task();
+		} finally {
+			this.releaseSlot();
+		}
+	}
+
+	/** Slow every queued and future request down after a 429 */
+	onRateLimited(retryAfterMs?: number): void {
+		this.bucket.penalize(Date.now(), retryAfterMs ?? DEFAULT_RATE_LIMIT_PAUSE_MS);
+	}
+
+	onSuccess(): void {
+		this.bucket.reward();
+	}
+
+	private acquireSlot(signal?: AbortSignal): Promise<void> {
+		throwIfAborted(signal);
+		if (this.active < this.maxConcurrent) {
+			this.active++;
+			return Promise.resolve();
+		}
+		// The slot is handed over directly by releaseSlot
+		return new Promise((resolve, reject) => {
+			const onAbort = () => {
+				const index = this.waiting.indexOf(waiter);
+				if (index !== -1) {
+					this.waiting.splice(index, 1);
+				}
+				reject(new CancelledError());
+			};
+			const waiter = () => {
+				signal?.removeEventListener('abort', onAbort);
+				resolve();
+			};
+			this.waiting.push(waiter);
+			signal?.addEventListener('abort', onAbort, { once: true });
+		});
+	}
+
+	private releaseSlot(): void {
+		const next = this.waiting.shift();
+		if (next) {
+			next();
+		} else {
+			this.active--;
+		}
+	}
+
+	private async acquireToken(signal?: AbortSignal): Promise<void> {
+		let waitMs = this.bucket.take(Date.now());
+		while (waitMs > 0) {
+			await sleep(waitMs, signal);
+			waitMs = this.bucket.take(Date.now());
+		}
+	}
+}
@@ -1,11 +1,46 @@
 import { App, PluginSettingTab, Setting, normalizePath } from 'obsidian';
-import { SECRET_KEY_API } from './types';
-import { IncidentIOAPI } from './api';
+import {
+	SECRET_KEY_API,
+	ArchiveAction,
+	ArchivableStatusCategory,
+	CustomFieldFilter,
+	DEFAULT_SETTINGS,
+	IncidentFilters,
+	IncidentIOUser,
+	IncidentRoleType,
+	IncidentStatusCategory,
+	IncludeExcludeFilter,
+	RoleFilter,
+	WorkspaceProfile,
+} from './types';
+import { IncidentIOAPI, apiOptionsFromSettings, resolveLegacyUser } from './api';
+import { normalizeBaseUrl } from './transport';
+import { NotFoundError, describeApiError } from './errors';
 import IncidentIOSyncPlugin from './main';
 import { logger } from './logger';
+import { DEFAULT_NOTE_PATH_PATTERN, NOTE_PATH_HELPERS } from './incident-notes';
+import { compileTemplate } from './template';
+import { createWorkspaceProfile, getWorkspaceNotesFolder, getWorkspaceSecretKey, getWorkspaceSettings } from './workspaces';
 
-// Validation helpers
+// Limits for numeric settings
 const MAX_HISTORICAL_DAYS = 90;
+const MAX_CONCURRENT_REQUESTS = 20;
+const MAX_UPCOMING_SHIFTS = 10;
+// User search results shown at once
+const MAX_USER_RESULTS = 20;
+const STATUS_CATEGORIES: IncidentStatusCategory[] = ['triage', 'live', 'paused', 'closed', 'declined', 'merged'];
+// Custom field filters that add watched incidents, for the main workspace and each profile
+const WATCHED_FIELD_FILTERS = {
+	name: 'Custom field filters',
+	desc: 'Also sync incidents where a custom field has a value, such as affected team = payments. Names and values ignore case.',
+};
+
+// Validation helpers
+
+/** Split a comma-separated list, dropping blanks */
+function parseCommaList(value: string): string[] {
+	return value.split(',').map(item => item.trim()).filter(item => item);
+}
 
 function validateNonNegativeInt(value: string, max?: number): number | null {
 	const num = parseInt(value, 10);
@@ -21,6 +56,17 @@ function validateSectionHeader(value: string): string | null {
 	return trimmed;
 }
 
+function validateNotePathPattern(value: string): string | null {
+	const trimmed = value.trim().replace(/^\/+|\/+$/g, '').replace(/\.md$/, '');
+	if (trimmed.length === 0) return DEFAULT_NOTE_PATH_PATTERN;
+	try {
+		compileTemplate(trimmed, Object.keys(NOTE_PATH_HELPERS));
+	} catch {
+		return null;
+	}
+	return trimmed;
+}
+
 export class IncidentIOSyncSettingTab extends PluginSettingTab {
 	plugin: IncidentIOSyncPlugin;
 
@@ -39,6 +85,438 @@ export class IncidentIOSyncSettingTab extends PluginSettingTab {
 		}
 	}
 
+	/**
+	 * API client for the buttons in this tab, using the saved key and connection
+	 * settings of the main workspace or of an additional workspace profile
+	 */
+	private async createApi(profile?: WorkspaceProfile): Promise<IncidentIOAPI> {
+		const settings = profile ? getWorkspaceSettings(this.plugin.settings, profile) : this.plugin.settings;
+		if (!settings.apiKeyConfigured) {
+			throw new Error('API key is not configured');
+		}
+
+		const apiKey = await this.plugin.getSecret(profile ? getWorkspaceSecretKey(profile.id) : SECRET_KEY_API);
+		if (!apiKey) {
+			throw new Error('API key not found in secure storage');
+		}
+
+		return new IncidentIOAPI(apiKey, apiOptionsFromSettings(settings));
+	}
+
+	/**
+	 * Add a name or email search to a setting. Results are listed below it,
+	 * each with a button to choose that user; the tab redraws after a choice.
+	 */
+	private addUserSearch(
+		setting: Setting,
+		containerEl: HTMLElement,
+		options: {
+			isChosen: (user: IncidentIOUser) => boolean;
+			chosenText: string;
+			chooseText: string;
+			onChoose: (user: IncidentIOUser) => Promise<void>;
+			// Search this workspace instead of the main one
+			profile?: WorkspaceProfile;
+		}
+	): void {
+		const results = containerEl.createDiv('user-search-results');
+		results.hide();
+
+		let userQuery = '';
+		setting.addText(text => text
+			.setPlaceholder('Name or email')
+			.onChange((value) => {
+				userQuery = value;
+			}));
+
+		setting.addButton(button => button
+			.setButtonText('Search')
+			.onClick(async () => {
+				const query = userQuery.trim();
+				if (!query) {
+					return;
+				}
+
+				button.setButtonText('Searching...');
+				button.setDisabled(true);
+				results.empty();
+
+				try {
+					const api = await this.createApi(options.profile);
+					const users = await api.searchUsers(query);
+
+					if (users.length === 0) {
+						results.createDiv({ text: `No users match "${query}"` });
+					}
+					for (const user of users.slice(0, MAX_USER_RESULTS)) {
+						const isChosen = options.isChosen(user);
+						new Setting(results)
+							.setName(user.name)
+							.setDesc(user.email)
+							.addButton(choose => choose
+								.setButtonText(isChosen ? options.chosenText : options.chooseText)
+								.setDisabled(isChosen)
+								.onClick(async () => {
+									await options.onChoose(user);
+									this.display();
+								}));
+					}
+					if (users.length > MAX_USER_RESULTS) {
+						results.createDiv({
+							text: `Showing ${MAX_USER_RESULTS} of ${users.length} matches - search for more of the name or email`,
+						});
+					}
+				} catch (error) {
+					results.createDiv({ text: `Search failed: ${describeApiError(error)}` });
+				}
+
+				results.show();
+				button.setButtonText('Search');
+				button.setDisabled(false);
+			}));
+	}
+
+	private describeSelectedUser(): string {
+		const { userId, userEmail, userIdentifier } = this.plugin.settings;
+		if (userId) {
+			return `Syncing incidents for ${userEmail || userId}`;
+		}
+		if (userIdentifier.trim()) {
+			return `Matching "${userIdentifier.trim()}" by name or email. Search and choose your user so the right person is always synced.`;
+		}
+		return 'Search for your incident.io user by name or email, then choose it';
+	}
+
+	/** Report on the chosen user, or on what a legacy identifier matches */
+	private async testUser(api: IncidentIOAPI, resultContainer: HTMLElement): Promise<void> {
+		const { userId, userIdentifier } = this.plugin.settings;
+
+		if (userId) {
+			try {
+				const user = await api.getUser(userId);
+				resultContainer.className = 'test-connection-result success';
+				resultContainer.textContent = `Connected! Syncing as ${user.name} (${user.email})`;
+			} catch (error) {
+				if (!(error instanceof NotFoundError)) {
+					throw error;
+				}
+				resultContainer.className = 'test-connection-result error';
+				resultContainer.textContent = 'API connected but the selected user no longer exists - choose your user again';
+			}
+			return;
+		}
+
+		const identifier = userIdentifier.trim();
+		const matches = identifier ? await api.findUsers(identifier) : [];
+		const user = resolveLegacyUser(matches, identifier);
+		if (matches.length > 1) {
+			const names = matches.slice(0, 5).map(match => `${match.name} (${match.email})`).join(', ');
+			resultContainer.className = user ? 'test-connection-result warning' : 'test-connection-result error';
+			const advice = user
+				? `Syncing as ${user.email}, the exact match. Choose your user above to be sure.`
+				: 'Syncs will fail until you choose your user above.';
+			resultContainer.textContent = `"${identifier}" matches ${matches.length} users: ${names}${matches.length > 5 ? ', ...' : ''}. ${advice}`;
+		} else if (user) {
+			resultContainer.className = 'test-connection-result success';
+			resultContainer.textContent = `Connected! Found user: ${user.name} (${user.email})`;
+		} else {
+			resultContainer.className = 'test-connection-result error';
+			resultContainer.textContent = identifier
+				? `API connected but couldn't find user matching "${identifier}"`
+				: 'API connected - now choose your user above';
+		}
+	}
+
+	/** Toggles for which of the user's roles make an incident theirs */
+	private renderRoleFilter(containerEl: HTMLElement, roleFilter: RoleFilter): void {
+		const roleTypeToggles: Array<{ roleType: IncidentRoleType; name: string; desc: string }> = [
+			{ roleType: 'lead', name: 'Incident lead', desc: 'Include incidents you lead' },
+			{ roleType: 'reporter', name: 'Reporter', desc: 'Include incidents you reported' },
+			{ roleType: 'custom', name: 'All custom roles', desc: 'Include incidents where you hold any custom role' },
+		];
+
+		for (const { roleType, name, desc } of roleTypeToggles) {
+			new Setting(containerEl)
+				.setName(name)
+				.setDesc(desc)
+				.addToggle(toggle => toggle
+					.setValue(roleFilter.roleTypes.includes(roleType))
+					.onChange(async (value) => {
+						roleFilter.roleTypes = roleFilter.roleTypes.filter(type => type !== roleType);
+						if (value) {
+							roleFilter.roleTypes.push(roleType);
+						}
+						await this.plugin.saveSettings();
+						if (roleType === 'custom') {
+							this.display();
+						}
+					}));
+		}
+
+		if (!roleFilter.roleTypes.includes('custom')) {
+			new Setting(containerEl)
+				.setName('Custom roles')
+				.setDesc('Comma-separated names of custom roles to include, such as scribe')
+				.addText(text => text
+					.setPlaceholder('Scribe, communications lead')
+					.setValue(roleFilter.customRoleNames.join(', '))
+					.onChange(async (value) => {
+						roleFilter.customRoleNames = parseCommaList(value);
+						await this.plugin.saveSettings();
+					}));
+		}
+	}
+
+	/** Editable list of custom field name and value pairs */
+	private renderCustomFieldFilters(
+		containerEl: HTMLElement,
+		filters: CustomFieldFilter[],
+		heading: { name: string; desc: string }
+	): void {
+		new Setting(containerEl)
+			.setName(heading.name)
+			.setDesc(heading.desc);
+
+		filters.forEach((filter, index) => {
+			new Setting(containerEl)
+				.addText(text => text
+					.setPlaceholder('Custom field name')
+					.setValue(filter.fieldName)
+					.onChange(async (value) => {
+						filter.fieldName = value.trim();
+						await this.plugin.saveSettings();
+					}))
+				.addText(text => text
+					.setPlaceholder('Value')
+					.setValue(filter.value)
+					.onChange(async (value) => {
+						filter.value = value.trim();
+						await this.plugin.saveSettings();
+					}))
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip('Remove filter')
+					.onClick(async () => {
+						filters.splice(index, 1);
+						await this.plugin.saveSettings();
+						this.display();
+					}));
+		});
+
+		new Setting(containerEl)
+			.addButton(button => button
+				.setButtonText('Add filter')
+				.onClick(async () => {
+					filters.push({ fieldName: '', value: '' });
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+	}
+
+	/**
+	 * Comma-separated include and exclude lists. parse cleans each list, e.g.
+	 * dropping unknown values.
+	 */
+	private renderIncludeExclude<T extends string>(
+		containerEl: HTMLElement,
+		filter: IncludeExcludeFilter<T>,
+		options: { name: string; desc: string; placeholder: string; parse: (value: string) => T[] }
+	): void {
+		new Setting(containerEl)
+			.setName(options.name)
+			.setDesc(options.desc)
+			.addText(text => text
+				.setPlaceholder(`Include: ${options.placeholder}`)
+				.setValue(filter.include.join(', '))
+				.onChange(async (value) => {
+					filter.include = options.parse(value);
+					await this.plugin.saveSettings();
+				}))
+			.addText(text => text
+				.setPlaceholder(`Exclude: ${options.placeholder}`)
+				.setValue(filter.exclude.join(', '))
+				.onChange(async (value) => {
+					filter.exclude = options.parse(value);
+					await this.plugin.saveSettings();
+				}));
+	}
+
+	/** Severity, type, status and custom field filters that narrow every synced incident */
+	private renderIncidentFilters(containerEl: HTMLElement, incidentFilters: IncidentFilters): void {
+		this.renderIncludeExclude(containerEl, incidentFilters.severities, {
+			name: 'Severities',
+			desc: 'Only sync incidents with one of the included severities, and never the excluded ones. Comma-separated names; leave empty for any.',
+			placeholder: 'critical, major',
+			parse: parseCommaList,
+		});
+		this.renderIncludeExclude(containerEl, incidentFilters.incidentTypes, {
+			name: 'Incident types',
+			desc: 'Only sync incidents of the included types, and never the excluded ones, such as test incidents',
+			placeholder: 'default, test',
+			parse: parseCommaList,
+		});
+		this.renderIncludeExclude(containerEl, incidentFilters.statusCategories, {
+			name: 'Status categories',
+			desc: `One or more of ${STATUS_CATEGORIES.join(', ')}. Without historical days only triage and live are synced unless you include others, such as paused.`,
+			placeholder: 'triage, live, paused',
+			parse: value => parseCommaList(value.toLowerCase())
+				.filter((category): category is IncidentStatusCategory => STATUS_CATEGORIES.includes(category as IncidentStatusCategory)),
+		});
+
+		this.renderCustomFieldFilters(containerEl, incidentFilters.customFields.include, {
+			name: 'Required custom field values',
+			desc: 'Only sync incidents with at least one of these custom field values',
+		});
+		this.renderCustomFieldFilters(containerEl, incidentFilters.customFields.exclude, {
+			name: 'Excluded custom field values',
+			desc: 'Never sync incidents with any of these custom field values',
+		});
+	}
+
+	/** Settings for one additional workspace: its key, connection, user, notes folder and filters */
+	private renderWorkspace(containerEl: HTMLElement, profile: WorkspaceProfile, index: number): void {
+		new Setting(containerEl).setName(`Workspace: ${profile.name}`).setHeading();
+
+		new Setting(containerEl)
+			.setName('Name')
+			.setDesc('Shown next to this workspace\'s incidents and on-call schedules')
+			.addText(text => text
+				.setValue(profile.name)
+				.onChange(async (value) => {
+					if (value.trim()) {
+						profile.name = value.trim();
+						await this.plugin.saveSettings();
+					}
+				}));
+
+		new Setting(containerEl)
+			.setName('Enabled')
+			.setDesc('Include this workspace in syncs')
+			.addToggle(toggle => toggle
+				.setValue(profile.enabled)
+				.onChange(async (value) => {
+					profile.enabled = value;
+					await this.plugin.saveSettings();
+				}))
+			.addExtraButton(button => button
+				.setIcon('trash')
+				.setTooltip('Remove workspace')
+				.onClick(async () => {
+					await this.plugin.deleteSecret(getWorkspaceSecretKey(profile.id));
+					this.plugin.settings.workspaces.splice(index, 1);
+					await this.plugin.saveSettings();
+					await this.plugin.reinitializeApi();
+					this.display();
+				}));
+
+		const apiKeySetting = new Setting(containerEl)
+			.setName('API key')
+			.setDesc(profile.apiKeyConfigured ? '✓ API key configured' : 'No API key configured');
+
+		let apiKey = '';
+		apiKeySetting.addText(text => {
+			text
+				.setPlaceholder('Enter new API key to update')
+				.onChange((value) => {
+					apiKey = value.trim();
+				});
+			text.inputEl.setAttribute('type', 'password');
+			return text;
+		});
+
+		apiKeySetting.addButton(button => button
+			.setButtonText('Save key')
+			.onClick(async () => {
+				if (!apiKey) {
+					return;
+				}
+				try {
+					await this.plugin.setSecret(getWorkspaceSecretKey(profile.id), apiKey);
+					profile.apiKeyConfigured = true;
+					await this.plugin.saveSettings();
+					await this.plugin.reinitializeApi();
+					logger.info('Workspace API key saved to SecretStorage');
+				} catch (error) {
+					logger.error('Failed to save workspace API key', error);
+				}
+				this.display();
+			}));
+
+		apiKeySetting.addButton(button => button
+			.setButtonText('Clear')
+			.onClick(async () => {
+				await this.plugin.deleteSecret(getWorkspaceSecretKey(profile.id));
+				profile.apiKeyConfigured = false;
+				await this.plugin.saveSettings();
+				await this.plugin.reinitializeApi();
+				this.display();
+			}));
+
+		const baseUrlSettings: Array<{ key: 'apiBaseUrl' | 'webBaseUrl'; name: string }> = [
+			{ key: 'apiBaseUrl', name: 'API base URL' },
+			{ key: 'webBaseUrl', name: 'Web app base URL' },
+		];
+		for (const { key, name } of baseUrlSettings) {
+			new Setting(containerEl)
+				.setName(name)
+				.setDesc('Leave empty to use the main workspace\'s')
+				.addText(text => text
+					.setPlaceholder(this.plugin.settings[key])
+					.setValue(profile[key])
+					.onChange(async (value) => {
+						const url = value.trim() ? normalizeBaseUrl(value) : '';
+						if (url !== null) {
+							profile[key] = url;
+							await this.plugin.saveSettings();
+							this.plugin.requestReinitializeApi();
+						}
+					}));
+		}
+
+		const userSetting = new Setting(containerEl)
+			.setName('User')
+			.setDesc(profile.userId
+				? `Syncing incidents for ${profile.userEmail || profile.userId}`
+				: 'Save an API key, then search for your user in this workspace and choose it');
+		this.addUserSearch(userSetting, containerEl, {
+			isChosen: user => user.id === profile.userId,
+			chosenText: 'Selected',
+			chooseText: 'Select',
+			onChoose: async (user) => {
+				profile.userId = user.id;
+				profile.userEmail = user.email;
+				await this.plugin.saveSettings();
+			},
+			profile,
+		});
+
+		new Setting(containerEl)
+			.setName('Incident notes folder')
+			.setDesc('Kept apart from the main workspace\'s notes so the same incident reference can\'t collide')
+			.addText(text => text
+				.setPlaceholder(getWorkspaceNotesFolder(this.plugin.settings, { ...profile, incidentNotesFolder: '' }))
+				.setValue(profile.incidentNotesFolder)
+				.onChange(async (value) => {
+					profile.incidentNotesFolder = value.trim() ? normalizePath(value.trim()) : '';
+					await this.plugin.saveSettings();
+				}));
+
+		this.renderRoleFilter(containerEl, profile.roleFilter);
+
+		new Setting(containerEl)
+			.setName('Subscribed incidents')
+			.setDesc('Also sync incidents you are subscribed to')
+			.addToggle(toggle => toggle
+				.setValue(profile.includeSubscribed)
+				.onChange(async (value) => {
+					profile.includeSubscribed = value;
+					await this.plugin.saveSettings();
+				}));
+
+		this.renderCustomFieldFilters(containerEl, profile.customFieldFilters, WATCHED_FIELD_FILTERS);
+		this.renderIncidentFilters(containerEl, profile.incidentFilters);
+	}
+
 	display(): void {
 		const { containerEl } = this;
 		containerEl.empty();
@@ -111,21 +589,28 @@ export class IncidentIOSyncSettingTab extends PluginSettingTab {
 				logger.info('API key cleared from SecretStorage');
 			}));
 
-		new Setting(containerEl)
-			.setName('User identifier')
-			.setDesc('Email substring or name to match your user (e.g., "james" will match james@company.com)')
-			.addText(text => text
-				.setPlaceholder('James')
-				.setValue(this.plugin.settings.userIdentifier)
-				.onChange(async (value) => {
-					this.plugin.settings.userIdentifier = value;
-					await this.plugin.saveSettings();
-				}));
+		// User - chosen from an API search and stored by ID
+		const userSetting = new Setting(containerEl)
+			.setName('User')
+			.setDesc(this.describeSelectedUser());
+
+		this.addUserSearch(userSetting, containerEl, {
+			isChosen: user => user.id === this.plugin.settings.userId,
+			chosenText: 'Selected',
+			chooseText: 'Select',
+			onChoose: async (user) => {
+				this.plugin.settings.userId = user.id;
+				this.plugin.settings.userEmail = user.email;
+				this.plugin.settings.userIdentifier = user.email;
+				await this.plugin.saveSettings();
+				logger.info('Selected user to sync');
+			},
+		});
 
 		// Test connection button
 		const testConnectionSetting = new Setting(containerEl)
 			.setName('Test connection')
-			.setDesc('Verify your API key and user identifier work correctly');
+			.setDesc('Verify your API key and user work correctly');
 
 		const resultContainer = containerEl.createDiv('test-connection-result');
 		resultContainer.hide();
@@ -137,34 +622,18 @@ export class IncidentIOSyncSettingTab extends PluginSettingTab {
 				button.setDisabled(true);
 
 				try {
-					if (!this.plugin.settings.apiKeyConfigured) {
-						throw new Error('API key is not configured');
-					}
-
-					const apiKey = await this.plugin.getSecret(SECRET_KEY_API);
-					if (!apiKey) {
-						throw new Error('API key not found in secure storage');
-					}
-
-					const api = new IncidentIOAPI(apiKey);
+					const api = await this.createApi();
 					const result = await api.testConnection();
 
 					if (result.success) {
-						const user = await api.findUser(this.plugin.settings.userIdentifier);
-						if (user) {
-							resultContainer.className = 'test-connection-result success';
-							resultContainer.textContent = `Connected! Found user: ${user.name} (${user.email})`;
-						} else {
-							resultContainer.className = 'test-connection-result error';
-							resultContainer.textContent = `API connected but couldn't find user matching "${this.plugin.settings.userIdentifier}"`;
-						}
+						await this.testUser(api, resultContainer);
 					} else {
 						resultContainer.className = 'test-connection-result error';
 						resultContainer.textContent = `Connection failed: ${result.error}`;
 					}
 				} catch (error) {
 					resultContainer.className = 'test-connection-result error';
-					resultContainer.textContent = `Error: ${error instanceof Error ? error.message : 'Unknown error'}`;
+					resultContainer.textContent = `Error: ${describeApiError(error)}`;
 				}
 
 				resultContainer.show();
@@ -172,6 +641,96 @@ export class IncidentIOSyncSettingTab extends PluginSettingTab {
 				button.setDisabled(false);
 			}));
 
+		// Connection
+		new Setting(containerEl).setName('Connection').setHeading();
+
+		new Setting(containerEl)
+			.setName('API base URL')
+			.setDesc('Where API requests are sent, such as a corporate proxy or a local test server. Leave empty for the default.')
+			.addText(text => text
+				.setPlaceholder(DEFAULT_SETTINGS.apiBaseUrl)
+				.setValue(this.plugin.settings.apiBaseUrl === DEFAULT_SETTINGS.apiBaseUrl ? '' : this.plugin.settings.apiBaseUrl)
+				.onChange(async (value) => {
+					const url = value.trim() ? normalizeBaseUrl(value) : DEFAULT_SETTINGS.apiBaseUrl;
+					if (url !== null) {
+						this.plugin.settings.apiBaseUrl = url;
+						await this.plugin.saveSettings();
+						this.plugin.requestReinitializeApi();
+					}
+				}));
+
+		new Setting(containerEl)
+			.setName('Web app base URL')
+			.setDesc('Used for links to incidents. Leave empty for the default.')
+			.addText(text => text
+				.setPlaceholder(DEFAULT_SETTINGS.webBaseUrl)
+				.setValue(this.plugin.settings.webBaseUrl === DEFAULT_SETTINGS.webBaseUrl ? '' : this.plugin.settings.webBaseUrl)
+				.onChange(async (value) => {
+					const url = value.trim() ? normalizeBaseUrl(value) : DEFAULT_SETTINGS.webBaseUrl;
+					if (url !== null) {
+						this.plugin.settings.webBaseUrl = url;
+						await this.plugin.saveSettings();
+						this.plugin.requestReinitializeApi();
+					}
+				}));
+
+		new Setting(containerEl)
+			.setName('Max concurrent requests')
+			.setDesc(`How many API requests may be in flight at once (1-${MAX_CONCURRENT_REQUESTS}). Requests also slow down automatically when incident.io rate limits them.`)
+			.addText(text => text
+				.setPlaceholder(String(DEFAULT_SETTINGS.maxConcurrentRequests))
+				.setValue(String(this.plugin.settings.maxConcurrentRequests))
+				.onChange(async (value) => {
+					const validated = validateNonNegativeInt(value, MAX_CONCURRENT_REQUESTS);
+					if (validated !== null && validated > 0) {
+						this.plugin.settings.maxConcurrentRequests = validated;
+						await this.plugin.saveSettings();
+						this.plugin.requestReinitializeApi();
+					}
+				}));
+
+		new Setting(containerEl)
+			.setName('Custom headers')
+			.setDesc('Extra headers sent with every API request. Values are stored unencrypted in the plugin data.');
+
+		this.plugin.settings.customHeaders.forEach((header, index) => {
+			new Setting(containerEl)
+				.addText(text => text
+					.setPlaceholder('Header name')
+					.setValue(header.name)
+					.onChange(async (value) => {
+						header.name = value.trim();
+						await this.plugin.saveSettings();
+						this.plugin.requestReinitializeApi();
+					}))
+				.addText(text => text
+					.setPlaceholder('Value')
+					.setValue(header.value)
+					.onChange(async (value) => {
+						header.value = value;
+						await this.plugin.saveSettings();
+						this.plugin.requestReinitializeApi();
+					}))
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip('Remove header')
+					.onClick(async () => {
+						this.plugin.settings.customHeaders.splice(index, 1);
+						await this.plugin.saveSettings();
+						await this.plugin.reinitializeApi();
+						this.display();
+					}));
+		});
+
+		new Setting(containerEl)
+			.addButton(button => button
+				.setButtonText('Add header')
+				.onClick(async () => {
+					this.plugin.settings.customHeaders.push({ name: '', value: '' });
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
 		// Sync Configuration
 		new Setting(containerEl).setName('Sync configuration').setHeading();
 
@@ -186,6 +745,60 @@ export class IncidentIOSyncSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		new Setting(containerEl)
+			.setName('Incident note path')
+			.setDesc('Path pattern inside the incident notes folder, without .md. Supports {{reference}}, {{name}}, {{slug name}}, {{year}}, {{month}}, {{day}}, {{severity}}, {{status}}. Existing notes are moved on the next sync.')
+			.addText(text => text
+				.setPlaceholder(DEFAULT_NOTE_PATH_PATTERN)
+				.setValue(this.plugin.settings.incidentNotePathPattern)
+				.onChange(async (value) => {
+					const validated = validateNotePathPattern(value);
+					if (validated !== null) {
+						this.plugin.settings.incidentNotePathPattern = validated;
+						await this.plugin.saveSettings();
+					}
+					// Invalid pattern silently ignored - field reverts on re-open
+				}));
+
+		new Setting(containerEl)
+			.setName('Incident note template')
+			.setDesc('Template file used to render incident notes (empty = built-in layout)')
+			.addText(text => text
+				.setPlaceholder('Templates/incident.md')
+				.setValue(this.plugin.settings.incidentTemplatePath)
+				.onChange(async (value) => {
+					this.plugin.settings.incidentTemplatePath = value.trim() ? normalizePath(value.trim()) : '';
+					await this.plugin.saveSettings();
+				}))
+			.addButton(button => button
+				.setButtonText('Create from default')
+				.setTooltip('Write the built-in layout to the template path so you can edit it')
+				.onClick(async () => {
+					const success = await this.plugin.createDefaultTemplate();
+					button.setButtonText(success ? 'Created!' : 'Failed');
+					setTimeout(() => button.setButtonText('Create from default'), 2000);
+				}));
+
+		new Setting(containerEl)
+			.setName('Experimental write-back')
+			.setDesc('Sync checkboxes back, post updates and create follow-ups from incident notes. These use endpoints that aren\'t in incident.io\'s public API reference, so incident.io may reject them.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.experimentalWriteBack)
+				.onChange(async (value) => {
+					this.plugin.settings.experimentalWriteBack = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Sync checkboxes back')
+			.setDesc('When you tick or untick a follow-up or action in an incident note, ask to update it in incident.io. Needs experimental write-back, and an API key with permission to edit them.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.syncCheckboxes)
+				.onChange(async (value) => {
+					this.plugin.settings.syncCheckboxes = value;
+					await this.plugin.saveSettings();
+				}));
+
 		new Setting(containerEl)
 			.setName('Historical days')
 			.setDesc(`Sync incidents from the last N days (0 = only active incidents, max ${MAX_HISTORICAL_DAYS})`)
@@ -211,6 +824,198 @@ export class IncidentIOSyncSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		// Incident roles - which of your role assignments make an incident yours
+		new Setting(containerEl).setName('Incident roles').setHeading();
+
+		this.renderRoleFilter(containerEl, this.plugin.settings.roleFilter);
+
+		// Watched incidents - synced without a role, grouped under Watching
+		new Setting(containerEl).setName('Watched incidents').setHeading();
+
+		new Setting(containerEl)
+			.setName('Subscribed incidents')
+			.setDesc('Also sync incidents you are subscribed to')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.includeSubscribed)
+				.onChange(async (value) => {
+					this.plugin.settings.includeSubscribed = value;
+					await this.plugin.saveSettings();
+				}));
+
+		this.renderCustomFieldFilters(containerEl, this.plugin.settings.customFieldFilters, WATCHED_FIELD_FILTERS);
+
+		// Incident filters - narrow everything above by severity, type, status and custom fields
+		new Setting(containerEl).setName('Incident filters').setHeading();
+		this.renderIncidentFilters(containerEl, this.plugin.settings.incidentFilters);
+
+		// Team mode
+		new Setting(containerEl).setName('Team').setHeading();
+
+		new Setting(containerEl)
+			.setName('Team mode')
+			.setDesc('Also sync incidents where team members hold one of the roles above, and show who from the team is on call')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.teamModeEnabled)
+				.onChange(async (value) => {
+					this.plugin.settings.teamModeEnabled = value;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		if (this.plugin.settings.teamModeEnabled) {
+			this.plugin.settings.teamMembers.forEach((member, index) => {
+				new Setting(containerEl)
+					.setName(member.name)
+					.setDesc(member.email)
+					.addExtraButton(button => button
+						.setIcon('trash')
+						.setTooltip('Remove from team')
+						.onClick(async () => {
+							this.plugin.settings.teamMembers.splice(index, 1);
+							await this.plugin.saveSettings();
+							this.display();
+						}));
+			});
+
+			const addMemberSetting = new Setting(containerEl)
+				.setName('Add team member')
+				.setDesc('Search by name or email');
+			this.addUserSearch(addMemberSetting, containerEl, {
+				isChosen: user => this.plugin.settings.teamMembers.some(member => member.id === user.id),
+				chosenText: 'In team',
+				chooseText: 'Add',
+				onChoose: async (user) => {
+					this.plugin.settings.teamMembers.push({ id: user.id, name: user.name, email: user.email });
+					await this.plugin.saveSettings();
+				},
+			});
+
+			new Setting(containerEl)
+				.setName('Team catalog entry')
+				.setDesc('ID of an incident.io catalog entry, such as your team, whose attributes list more members. Read on every sync.')
+				.addText(text => text
+					.setPlaceholder('Catalog entry ID')
+					.setValue(this.plugin.settings.teamCatalogEntryId)
+					.onChange(async (value) => {
+						this.plugin.settings.teamCatalogEntryId = value.trim();
+						await this.plugin.saveSettings();
+					}));
+		}
+
+		// Workspaces - other incident.io organisations synced into the same vault
+		new Setting(containerEl).setName('Workspaces').setHeading();
+
+		new Setting(containerEl)
+			.setName('Main workspace name')
+			.setDesc('Label for incidents from the workspace configured above, shown once you add another workspace')
+			.addText(text => text
+				.setPlaceholder(DEFAULT_SETTINGS.workspaceName)
+				.setValue(this.plugin.settings.workspaceName)
+				.onChange(async (value) => {
+					this.plugin.settings.workspaceName = value.trim() || DEFAULT_SETTINGS.workspaceName;
+					await this.plugin.saveSettings();
+				}));
+
+		this.plugin.settings.workspaces.forEach((profile, index) => {
+			this.renderWorkspace(containerEl, profile, index);
+		});
+
+		let newWorkspaceName = '';
+		new Setting(containerEl)
+			.setName('Add workspace')
+			.setDesc('Sync another incident.io organisation with its own API key, user and notes folder')
+			.addText(text => text
+				.setPlaceholder('Workspace name')
+				.onChange((value) => {
+					newWorkspaceName = value.trim();
+				}))
+			.addButton(button => button
+				.setButtonText('Add')
+				.onClick(async () => {
+					if (!newWorkspaceName) {
+						return;
+					}
+					this.plugin.settings.workspaces.push(createWorkspaceProfile(newWorkspaceName, this.plugin.settings.workspaces));
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		// Archiving
+		new Setting(containerEl).setName('Archiving').setHeading();
+
+		const archiveCategories: Array<{ category: ArchivableStatusCategory; name: string; desc: string }> = [
+			{ category: 'closed', name: 'Closed incidents', desc: 'What to do with notes for closed incidents' },
+			{ category: 'merged', name: 'Merged incidents', desc: 'What to do with notes for incidents merged into another' },
+			{ category: 'declined', name: 'Declined incidents', desc: 'What to do with notes for declined incidents' },
+		];
+
+		for (const { category, name, desc } of archiveCategories) {
+			const rule = this.plugin.settings.archiveRules[category];
+			new Setting(containerEl)
+				.setName(name)
+				.setDesc(desc)
+				.addDropdown(dropdown => dropdown
+					.addOption('keep', 'Keep in place')
+					.addOption('move', 'Move to folder')
+					.addOption('delete', 'Delete note')
+					.setValue(rule.action)
+					.onChange(async (value) => {
+						rule.action = value as ArchiveAction;
+						await this.plugin.saveSettings();
+					}))
+				.addText(text => text
+					.setPlaceholder('e.g., Incidents/archive')
+					.setValue(rule.folder)
+					.onChange(async (value) => {
+						const trimmed = value.trim();
+						if (trimmed) {
+							rule.folder = normalizePath(trimmed);
+							await this.plugin.saveSettings();
+						}
+					}));
+		}
+
+		// Frontmatter
+		new Setting(containerEl).setName('Custom field frontmatter').setHeading();
+
+		new Setting(containerEl)
+			.setDesc('Custom fields are written under custom_fields in incident note frontmatter. Map a field to its own frontmatter key, or leave the key empty to exclude it.');
+
+		this.plugin.settings.customFieldMappings.forEach((mapping, index) => {
+			new Setting(containerEl)
+				.addText(text => text
+					.setPlaceholder('Custom field name')
+					.setValue(mapping.fieldName)
+					.onChange(async (value) => {
+						mapping.fieldName = value.trim();
+						await this.plugin.saveSettings();
+					}))
+				.addText(text => text
+					.setPlaceholder('Frontmatter key (empty = exclude)')
+					.setValue(mapping.key)
+					.onChange(async (value) => {
+						mapping.key = value.trim();
+						await this.plugin.saveSettings();
+					}))
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip('Remove mapping')
+					.onClick(async () => {
+						this.plugin.settings.customFieldMappings.splice(index, 1);
+						await this.plugin.saveSettings();
+						this.display();
+					}));
+		});
+
+		new Setting(containerEl)
+			.addButton(button => button
+				.setButtonText('Add mapping')
+				.onClick(async () => {
+					this.plugin.settings.customFieldMappings.push({ fieldName: '', key: '' });
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
 		// Daily Note Display
 		new Setting(containerEl).setName('Daily note display').setHeading();
 
@@ -253,6 +1058,30 @@ export class IncidentIOSyncSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		new Setting(containerEl)
+			.setName('Upcoming shifts')
+			.setDesc(`How many of your next on-call shifts to list (0 = none, max ${MAX_UPCOMING_SHIFTS})`)
+			.addText(text => text
+				.setPlaceholder('3')
+				.setValue(String(this.plugin.settings.upcomingShiftCount))
+				.onChange(async (value) => {
+					const validated = validateNonNegativeInt(value, MAX_UPCOMING_SHIFTS);
+					if (validated !== null) {
+						this.plugin.settings.upcomingShiftCount = validated;
+						await this.plugin.saveSettings();
+					}
+				}));
+
+		new Setting(containerEl)
+			.setName('On-call frontmatter')
+			.setDesc('Add your on-call schedules, shift end and next shift to today\'s daily note properties')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.onCallFrontmatter)
+				.onChange(async (value) => {
+					this.plugin.settings.onCallFrontmatter = value;
+					await this.plugin.saveSettings();
+				}));
+
 		new Setting(containerEl)
 			.setName('Show incidents')
 			.setDesc('Include active incidents in daily notes')
@@ -0,0 +1,48 @@
+import { ApiError } from './errors';
+import { formatDuration } from './incident-notes';
+import { CachedSyncResult, IncidentDetails, SyncState } from './types';
+
+// The last successful sync result is kept in the plugin's data file. When
+// incident.io can't be reached, a sync writes the daily note and incident
+// notes from it instead, and on startup it seeds the incident detail cache so
+// the first sync doesn't refetch every incident.
+
+/** Sync state from the data file, with anything missing filled in */
+export function restoreSyncState(stored?: Partial<SyncState>): SyncState {
+	return {
+		noteHashes: { ...stored?.noteHashes },
+		noteMappedKeys: { ...stored?.noteMappedKeys },
+		incidentUpdatedAt: { ...stored?.incidentUpdatedAt },
+		workspaceIncidentUpdatedAt: { ...stored?.workspaceIncidentUpdatedAt },
+		lastResult: stored?.lastResult,
+	};
+}
+
+/**
+ * The cached result to sync from after a failed fetch, or null to report the
+ * error. Only outages and connection problems fall back - a bad key or
+ * missing scope needs fixing, not hiding behind old data, and a cancelled
+ * sync stays cancelled.
+ */
+export function getOfflineFallback(error: unknown, cached: CachedSyncResult | undefined): CachedSyncResult | null {
+	if (!cached || !(error instanceof ApiError && error.retryable)) {
+		return null;
+	}
+	return cached;
+}
+
+/** How long ago an ISO timestamp was, e.g. "45m" or "2h 5m" */
+export function formatDataAge(since: string, now: number = Date.now()): string {
+	const minutes = Math.max(0, Math.floor((now - new Date(since).getTime()) / (1000 * 60)));
+	return formatDuration(minutes);
+}
+
+/** Incident details from a cached result, keyed by incident ID */
+export function getCachedIncidentDetails(cached: CachedSyncResult | undefined): Map<string, IncidentDetails> {
+	const details = new Map<string, IncidentDetails>();
+	for (const incident of cached?.result.fullIncidents || []) {
+		const { updates, followUps, actions, attachments, timestamps } = incident;
+		details.set(incident.id, { updates, followUps, actions, attachments, timestamps });
+	}
+	return details;
+}
@@ -0,0 +1,506 @@
+import { regionEnd, regionStart } from './managed-regions';
+
+// A small Handlebars-style template language for incident notes.
+//
+//   {{path.to.value}}              Output a value (missing values render as '')
+//   {{helper arg "literal"}}       Call a helper with paths or string/number literals
+//   {{#each list}}…{{else}}…{{/each}}   Loop; inside, fields resolve against the item
+//                                  first, then outer scopes. {{this}}, {{@index}},
+//                                  {{@first}} and {{@last}} are available.
+//   {{#if value}}…{{else}}…{{/if}}  Conditional (empty lists are falsy)
+//   {{#unless value}}…{{/unless}}  Inverse conditional
+//   {{#region name}}…{{/region}}   Managed region, rewritten on every sync.
+//                                  Omitted entirely when its content is blank.
+//   {{! comment }}                 Ignored
+//
+// Block tags on a line of their own don't leave blank lines behind.
+
+export class TemplateError extends Error {
+	constructor(message: string, line?: number) {
+		super(line !== undefined ? `${message} (line ${line})` : message);
+		this.name = 'TemplateError';
+	}
+}
+
+export type TemplateHelper = (...args: unknown[]) => string;
+
+type Argument = { type: 'path'; path: string } | { type: 'literal'; value: string | number };
+
+interface TextNode {
+	type: 'text';
+	value: string;
+}
+
+interface OutputNode {
+	type: 'output';
+	name: string;
+	args: Argument[];
+	line: number;
+}
+
+interface BlockNode {
+	type: 'block';
+	name: 'each' | 'if' | 'unless' | 'region';
+	args: Argument[];
+	children: TemplateNode[];
+	inverse: TemplateNode[];
+	line: number;
+}
+
+type TemplateNode = TextNode | OutputNode | BlockNode;
+
+export interface CompiledTemplate {
+	nodes: TemplateNode[];
+}
+
+const BLOCK_NAMES = ['each', 'if', 'unless', 'region'];
+
+interface Token {
+	kind: 'text' | 'output' | 'open' | 'else' | 'close' | 'comment';
+	value: string;
+	line: number;
+}
+
+function lineAt(source: string, index: number): number {
+	return source.slice(0, index).split('\n').length;
+}
+
+function tokenize(source: string): Token[] {
+	const tokens: Token[] = [];
+	let index = 0;
+
+	while (index < source.length) {
+		const open = source.indexOf('{{', index);
+		if (open === -1) {
+			tokens.push({ kind: 'text', value: source.slice(index), line: lineAt(source, index) });
+			break;
+		}
+		if (open > index) {
+			tokens.push({ kind: 'text', value: source.slice(index, open), line: lineAt(source, index) });
+		}
+
+		const close = source.indexOf('}}', open + 2);
+		if (close === -1) {
+			throw new TemplateError('Unclosed tag "{{"', lineAt(source, open));
+		}
+
+		const body = source.slice(open + 2, close).trim();
+		const line = lineAt(source, open);
+		if (body.startsWith('!')) {
+			tokens.push({ kind: 'comment', value: body, line });
+		} else if (body.startsWith('#')) {
+			tokens.push({ kind: 'open', value: body.slice(1).trim(), line });
+		} else if (body.startsWith('/')) {
+			tokens.push({ kind: 'close', value: body.slice(1).trim(), line });
+		} else if (body === 'else') {
+			tokens.push({ kind: 'else', value: body, line });
+		} else if (body.length === 0) {
+			throw new TemplateError('Empty tag "{{}}"', line);
+		} else {
+			tokens.push({ kind: 'output', value: body, line });
+		}
+
+		index = close + 2;
+	}
+
+	stripStandaloneLines(tokens);
+	return tokens;
+}
+
+/**
+ * Remove the whitespace and newline around block tags that sit alone on a line,
+ * so a template can put {{#each}} etc. on their own lines without emitting blanks.
+ */
+function stripStandaloneLines(tokens: Token[]): void {
+	// Decide against the original text first - stripping one tag's line must not
+	// change whether the next tag counts as standalone
+	const standalone = tokens.map((token, i) => {
+		if (token.kind === 'text' || token.kind === 'output') {
+			return false;
+		}
+
+		const prev = i > 0 ? tokens[i - 1] : null;
+		const next = i < tokens.length - 1 ? tokens[i + 1] : null;
+
+		const aloneBefore = prev === null ||
+			(prev.kind === 'text' && (/\n[ \t]*$/.test(prev.value) || (i === 1 && /^[ \t]*$/.test(prev.value))));
+		const aloneAfter = next === null ||
+			(next.kind === 'text' && (/^[ \t]*\r?\n/.test(next.value) || (i === tokens.length - 2 && /^[ \t]*$/.test(next.value))));
+
+		return aloneBefore && aloneAfter;
+	});
+
+	standalone.forEach((isStandalone, i) => {
+		if (!isStandalone) {
+			return;
+		}
+		if (i > 0) {
+			tokens[i - 1].value = tokens[i - 1].value.replace(/[ \t]*$/, '');
+		}
+		if (i < tokens.length - 1) {
+			tokens[i + 1].value = tokens[i + 1].value.replace(/^[ \t]*(\r?\n)?/, '');
+		}
+	});
+}
+
+function parseArguments(input: string, line: number): { name: string; args: Argument[] } {
+	const parts = input.match(/"[^"]*"|'[^']*'|\S+/g) || [];
+	if (parts.length === 0) {
+		throw new TemplateError('Missing expression', line);
+	}
+
+	const args: Argument[] = parts.slice(1).map(part => {
+		if (/^(["']).*\1$/.test(part)) {
+			return { type: 'literal', value: part.slice(1, -1) };
+		}
+		if (/^-?\d+(\.\d+)?$/.test(part)) {
+			return { type: 'literal', value: Number(part) };
+		}
+		return { type: 'path', path: part };
+	});
+
+	return { name: parts[0] as string, args };
+}
+
+/**
+ * Parse template source into a reusable compiled template.
+ * Throws TemplateError for malformed templates or unknown helpers.
+ */
+export function compileTemplate(source: string, helperNames: string[] = []): CompiledTemplate {
+	const tokens = tokenize(source);
+	const root: TemplateNode[] = [];
+	const stack: Array<{ block: BlockNode; inElse: boolean }> = [];
+	const helpers = new Set(helperNames);
+
+	const current = (): TemplateNode[] => {
+		const top = stack[stack.length - 1];
+		if (!top) return root;
+		return top.inElse ? top.block.inverse : top.block.children;
+	};
+
+	for (const token of tokens) {
+		switch (token.kind) {
+			case 'text':
+				if (token.value) {
+					current().push({ type: 'text', value: token.value });
+				}
+				break;
+			case 'comment':
+				break;
+			case 'output': {
+				const { name, args } = parseArguments(token.value, token.line);
+				if (args.length > 0 && !helpers.has(name)) {
+					throw new TemplateError(`Unknown helper "${name}"`, token.line);
+				}
+				current().push({ type: 'output', name, args, line: token.line });
+				break;
+			}
+			case 'open': {
+				const { name, args } = parseArguments(token.value, token.line);
+				if (BLOCK_NAMES.indexOf(name) === -1) {
+					throw new TemplateError(`Unknown block "#${name}"`, token.line);
+				}
+				if (args.length !== 1) {
+					throw new TemplateError(`Block "#${name}" takes exactly one argument`, token.line);
+				}
+				if (name === 'region') {
+					const regionArg = args[0];
+					if (regionArg.type !== 'path' || !/^[\w-]+$/.test(regionArg.path)) {
+						throw new TemplateError('Region names may only contain letters, numbers, "-" and "_"', token.line);
+					}
+				}
+				const block: BlockNode = {
+					type: 'block',
+					name: name as BlockNode['name'],
+					args,
+					children: [],
+					inverse: [],
+					line: token.line,
+				};
+				current().push(block);
+				stack.push({ block, inElse: false });
+				break;
+			}
+			case 'else': {
+				const top = stack[stack.length - 1];
+				if (!top || top.block.name === 'region' || top.inElse) {
+					throw new TemplateError('Unexpected "{{else}}"', token.line);
+				}
+				top.inElse = true;
+				break;
+			}
+			case 'close': {
+				const top = stack.pop();
+				if (!top) {
+					throw new TemplateError(`Unexpected "{{/${token.value}}}"`, token.line);
+				}
+				if (top.block.name !== token.value) {
+					throw new TemplateError(`Expected "{{/${top.block.name}}}" but found "{{/${token.value}}}"`, token.line);
+				}
+				break;
+			}
+		}
+	}
+
+	const unclosed = stack.pop();
+	if (unclosed) {
+		throw new TemplateError(`Unclosed block "{{#${unclosed.block.name}}}"`, unclosed.block.line);
+	}
+
+	return { nodes: root };
+}
+
+interface Scope {
+	value: unknown;
+	data: Record<string, unknown>;
+}
+
+function lookup(scopes: Scope[], path: string): unknown {
+	if (path === 'this' || path === '.') {
+		return scopes[scopes.length - 1].value;
+	}
+	if (path.startsWith('@')) {
+		return scopes[scopes.length - 1].data[path];
+	}
+
+	const segments = path.replace(/^this\./, '').split('.');
+	for (let i = scopes.length - 1; i >= 0; i--) {
+		const value = scopes[i].value;
+		if (value !== null && typeof value === 'object' && segments[0] in value) {
+			let resolved: unknown = value;
+			for (const segment of segments) {
+				if (resolved === null || typeof resolved !== 'object') {
+					return undefined;
+				}
+				resolved = (resolved as Record<string, unknown>)[segment];
+			}
+			return resolved;
+		}
+		// this.foo only looks at the innermost scope
+		if (path.startsWith('this.')) {
+			return undefined;
+		}
+	}
+	return undefined;
+}
+
+function isTruthy(value: unknown): boolean {
+	if (Array.isArray(value)) {
+		return value.length > 0;
+	}
+	return !!value;
+}
+
+function stringify(value: unknown): string {
+	if (value === undefined || value === null) {
+		return '';
+	}
+	if (Array.isArray(value)) {
+		return value.map(stringify).join(', ');
+	}
+	if (typeof value === 'string') {
+		return value;
+	}
+	if (typeof value === 'number' || typeof value === 'boolean') {
+		return String(value);
+	}
+	return '';
+}
+
+function renderNodes(nodes: TemplateNode[], scopes: Scope[], helpers: Record<string, TemplateHelper>): string {
+	let output = '';
+
+	for (const node of nodes) {
+		if (node.type === 'text') {
+			output += node.value;
+			continue;
+		}
+
+		const args = node.args.map(arg => arg.type === 'literal' ? arg.value : lookup(scopes, arg.path));
+
+		if (node.type === 'output') {
+			if (node.args.length > 0) {
+				const helper = helpers[node.name];
+				if (!helper) {
+					throw new TemplateError(`Unknown helper "${node.name}"`, node.line);
+				}
+				output += helper(...args);
+			} else {
+				output += stringify(lookup(scopes, node.name));
+			}
+			continue;
+		}
+
+		switch (node.name) {
+			case 'each': {
+				const list = args[0];
+				if (Array.isArray(list) && list.length > 0) {
+					list.forEach((item, index) => {
+						output += renderNodes(node.children, [...scopes, {
+							value: item,
+							data: { '@index': index, '@first': index === 0, '@last': index === list.length - 1 },
+						}], helpers);
+					});
+				} else {
+					output += renderNodes(node.inverse, scopes, helpers);
+				}
+				break;
+			}
+			case 'if':
+				output += renderNodes(isTruthy(args[0]) ? node.children : node.inverse, scopes, helpers);
+				break;
+			case 'unless':
+				output += renderNodes(isTruthy(args[0]) ? node.inverse : node.children, scopes, helpers);
+				break;
+			case 'region': {
+				const name = (node.args[0] as { path: string }).path;
+				const inner = renderNodes(node.children, scopes, helpers).replace(/\s+$/, '');
+				if (inner.trim().length > 0) {
+					output += `${regionStart(name)}\n${inner}\n${regionEnd(name)}\n`;
+				}
+				break;
+			}
+		}
+	}
+
+	return output;
+}
+
+/** Render a compiled template against a context object */
+export function renderTemplate(
+	template: CompiledTemplate,
+	context: unknown,
+	helpers: Record<string, TemplateHelper> = {}
+): string {
+	return renderNodes(template.nodes, [{ value: context, data: {} }], helpers);
+}
+
+/**
+ * The built-in incident note layout. Users can copy this into a vault file and
+ * point the "Incident note template" setting at it to customise their notes.
+ */
+export const DEFAULT_INCIDENT_TEMPLATE = `{{#region title}}
+# {{reference}}: {{name}}
+{{#if mergedIntoLink}}
+
+*Merged into {{mergedIntoLink}}*
+{{/if}}
+{{#if summary}}
+
+> {{summary}}
+{{/if}}
+{{/region}}
+
+{{#region overview}}
+## Overview
+
+| Field | Value |
+|-------|-------|
+| **Status** | {{status}} |
+| **Severity** | {{severity}} |
+{{#if incidentType}}
+| **Type** | {{incidentType}} |
+{{/if}}
+{{#if duration}}
+| **Duration** | {{duration}} |
+{{/if}}
+| **Created** | {{formatDate created_at}} |
+{{#if closed_at}}
+| **Resolved** | {{formatDate closed_at}} |
+{{/if}}
+| **URL** | [View in incident.io]({{url}}) |
+{{/region}}
+
+{{#if timestamps}}
+{{#region timestamps}}
+## Timestamps
+
+{{#each timestamps}}
+- **{{name}}:** {{formatDate value}}
+{{/each}}
+{{/region}}
+
+{{/if}}
+{{#if roles}}
+{{#region roles}}
+## Roles
+
+{{#each roles}}
+- **{{role}}:** {{assignee}}{{#if isUser}} (you){{/if}}
+{{/each}}
+{{/region}}
+
+{{/if}}
+{{#if customFields}}
+{{#region custom-fields}}
+## Custom Fields
+
+{{#each customFields}}
+- **{{name}}:** {{value}}
+{{/each}}
+{{/region}}
+
+{{/if}}
+{{#if updates}}
+{{#region timeline}}
+## Timeline
+
+{{#each updates}}
+### {{formatDate created_at}}
+{{#if new_incident_status}}
+**Status changed:** → {{new_incident_status.name}}
+
+{{/if}}
+{{#if new_severity}}
+**Severity changed:** → {{new_severity.name}}
+
+{{/if}}
+{{#if message}}
+{{blockquote message}}
+{{/if}}
+{{#if updater}}
+— *{{updater.name}}*
+{{/if}}
+
+{{/each}}
+{{/region}}
+
+{{/if}}
+{{#if actions}}
+{{#region actions}}
+## Actions
+
+{{#each actions}}
+{{action this}}
+{{/each}}
+{{/region}}
+
+{{/if}}
+{{#if followUps}}
+{{#region follow-ups}}
+## Follow-ups
+
+{{#each followUps}}
+{{followUp this}}
+{{/each}}
+{{/region}}
+
+{{/if}}
+{{#if attachments}}
+{{#region attachments}}
+## Attachments
+
+{{#each attachments}}
+{{attachment this}}
+{{/each}}
+{{/region}}
+
+{{/if}}
+## Notes
+
+
+{{#region footer}}
+---
+*Last synced: {{lastSynced}}*
+{{/region}}
+`;
@@ -0,0 +1,97 @@
+import { requestUrl } from 'obsidian';
+import { HttpHeader } from './types';
+
+// HTTP transport for the API client. The default goes through Obsidian's
+// requestUrl; anything else (a proxy-aware client, a test double) can be
+// swapped in by implementing HttpTransport.
+
+export interface HttpRequest {
+	url: string;
+	method: string;
+	headers: Record<string, string>;
+	body?: string;
+	timeout?: number;
+	// Transports that can abort in-flight requests should; the default can't
+	signal?: AbortSignal;
+}
+
+export interface HttpResponse {
+	status: number;
+	headers: Record<string, string>;
+	// Parsed body - only call for responses expected to be JSON
+	json(): unknown;
+}
+
+export interface HttpTransport {
+	// Resolves for every HTTP status; rejects only when no response was received
+	request(request: HttpRequest): Promise<HttpResponse>;
+}
+
+// Header names whose values must never be logged
+const SENSITIVE_HEADER_PATTERN = /auth|key|token|secret|cookie|session|password/i;
+
+// Exported pure functions for testing
+
+/**
+ * Normalise a base URL setting: trims whitespace and trailing slashes.
+ * Returns null if it isn't an http(s) URL.
+ */
+export function normalizeBaseUrl(value: string): string | null {
+	const trimmed = value.trim().replace(/\/+$/, '');
+	if (!/^https?:\/\/[^/\s]+(\/\S*)?$/i.test(trimmed)) {
+		return null;
+	}
+	return trimmed;
+}
+
+/** Turn the custom header list from settings into a header map, skipping blank names */
+export function buildCustomHeaders(headers: HttpHeader[]): Record<string, string> {
+	const result: Record<string, string> = {};
+	for (const header of headers) {
+		const name = header.name.trim();
+		if (name) {
+			result[name] = header.value;
+		}
+	}
+	return result;
+}
+
+/** Look up a response header by name, ignoring case */
+export function getHeader(headers: Record<string, string>, name: string): string | undefined {
+	const lower = name.toLowerCase();
+	for (const key of Object.keys(headers)) {
+		if (key.toLowerCase() === lower) {
+			return headers[key];
+		}
+	}
+	return undefined;
+}
+
+/** Copy of a header map that is safe to log: credentials are replaced with a placeholder */
+export function redactHeaders(headers: Record<string, string>): Record<string, string> {
+	const redacted: Record<string, string> = {};
+	for (const name of Object.keys(headers)) {
+		redacted[name] = SENSITIVE_HEADER_PATTERN.test(name) ? '[redacted]' : headers[name];
+	}
+	return redacted;
+}
+
+/** Default transport: Obsidian's requestUrl, which isn't subject to CORS */
+export class RequestUrlTransport implements HttpTransport {
+	async request(request: HttpRequest): Promise<HttpResponse> {
+		const response = await requestUrl({
+			url: request.url,
+			method: request.method,
+			headers: request.headers,
+			body: request.body,
+			throw: false, // Non-2xx statuses are handled by the caller
+			timeout: request.timeout,
+		});
+
+		return {
+			status: response.status,
+			headers: response.headers || {},
+			json: () => response.json as unknown,
+		};
+	}
+}
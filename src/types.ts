@@ -6,10 +6,12 @@ export interface IncidentIOUser {
 	email: string;
 }
 
+export type IncidentStatusCategory = 'live' | 'triage' | 'closed' | 'merged' | 'declined' | 'paused';
+
 export interface IncidentStatus {
 	id: string;
 	name: string;
-	category: 'live' | 'triage' | 'closed' | 'merged' | 'declined' | 'paused';
+	category: IncidentStatusCategory;
 }
 
 export interface IncidentSeverity {
@@ -17,6 +19,8 @@ export interface IncidentSeverity {
 	name: string;
 }
 
+export type IncidentRoleType = 'lead' | 'reporter' | 'custom';
+
 export interface IncidentRoleAssignment {
 	assignee: {
 		id: string;
@@ -26,7 +30,7 @@ export interface IncidentRoleAssignment {
 	role: {
 		id: string;
 		name: string;
-		role_type: 'lead' | 'reporter' | 'custom';
+		role_type: IncidentRoleType;
 	};
 }
 
@@ -63,22 +67,43 @@ export interface Incident {
 	incident_type?: IncidentType;
 	incident_role_assignments: IncidentRoleAssignment[];
 	custom_field_entries?: IncidentCustomField[];
+	// Set on incidents with the 'merged' status category
+	merged_into_incident?: {
+		id: string;
+		reference: string;
+		name?: string;
+	};
+}
+
+// Cursor pagination returned by list endpoints
+export interface PaginatedResponse {
+	pagination_meta?: {
+		after?: string;
+	};
 }
 
-export interface IncidentsResponse {
+export interface IncidentsResponse extends PaginatedResponse {
 	incidents: Incident[];
 }
 
-export interface UsersResponse {
+export interface IncidentResponse {
+	incident: Incident;
+}
+
+export interface UsersResponse extends PaginatedResponse {
 	users: IncidentIOUser[];
 }
 
+export interface UserResponse {
+	user: IncidentIOUser;
+}
+
 export interface Schedule {
 	id: string;
 	name: string;
 }
 
-export interface SchedulesResponse {
+export interface SchedulesResponse extends PaginatedResponse {
 	schedules: Schedule[];
 }
 
@@ -92,7 +117,7 @@ export interface ScheduleEntry {
 	end_at: string;
 }
 
-export interface ScheduleEntriesResponse {
+export interface ScheduleEntriesResponse extends PaginatedResponse {
 	schedule_entries: {
 		final: ScheduleEntry[];
 	};
@@ -119,10 +144,21 @@ export interface IncidentUpdate {
 	};
 }
 
-export interface IncidentUpdatesResponse {
+export interface IncidentUpdatesResponse extends PaginatedResponse {
 	incident_updates: IncidentUpdate[];
 }
 
+export interface IncidentUpdateResponse {
+	incident_update: IncidentUpdate;
+}
+
+// An update to post to an incident's timeline from Obsidian
+export interface NewIncidentUpdate {
+	message: string;
+	statusId?: string; // Omit to leave the status as it is
+	severityId?: string; // Omit to leave the severity as it is
+}
+
 // Follow-ups from /v2/follow_ups
 export interface FollowUp {
 	id: string;
@@ -142,7 +178,7 @@ export interface FollowUp {
 	created_at: string;
 }
 
-export interface FollowUpsResponse {
+export interface FollowUpsResponse extends PaginatedResponse {
 	follow_ups: FollowUp[];
 }
 
@@ -159,10 +195,19 @@ export interface IncidentAction {
 	created_at: string;
 }
 
-export interface ActionsResponse {
+export interface ActionsResponse extends PaginatedResponse {
 	actions: IncidentAction[];
 }
 
+// Returned when a follow-up or action is updated
+export interface FollowUpResponse {
+	follow_up: FollowUp;
+}
+
+export interface ActionResponse {
+	action: IncidentAction;
+}
+
 // Attachments from /v1/incident_attachments
 export interface IncidentAttachment {
 	id: string;
@@ -174,7 +219,7 @@ export interface IncidentAttachment {
 	};
 }
 
-export interface AttachmentsResponse {
+export interface AttachmentsResponse extends PaginatedResponse {
 	incident_attachments: IncidentAttachment[];
 }
 
@@ -196,48 +241,284 @@ export interface IncidentTimestampValue {
 	};
 }
 
-export interface TimestampValuesResponse {
+export interface TimestampValuesResponse extends PaginatedResponse {
 	incident_timestamp_values: IncidentTimestampValue[];
 }
 
+// Subscriptions from /v2/incident_subscriptions
+export interface IncidentSubscription {
+	id: string;
+	incident_id: string;
+	user_id?: string;
+}
+
+export interface IncidentSubscriptionsResponse extends PaginatedResponse {
+	incident_subscriptions: IncidentSubscription[];
+}
+
+// Catalog entries from /v2/catalog_entries - used to load a team's members
+export interface CatalogAttributeValue {
+	value?: {
+		literal?: string;
+	};
+	array_value?: Array<{
+		literal?: string;
+	}>;
+}
+
+export interface CatalogEntry {
+	id: string;
+	name: string;
+	attribute_values?: Record<string, CatalogAttributeValue>;
+}
+
+export interface CatalogEntryResponse {
+	catalog_entry: CatalogEntry;
+}
+
+export interface IncidentStatusesResponse {
+	incident_statuses: IncidentStatus[];
+}
+
+export interface SeveritiesResponse {
+	severities: IncidentSeverity[];
+}
+
+export interface IncidentTypesResponse {
+	incident_types: IncidentType[];
+}
+
+// Custom field definitions from /v2/custom_fields
+export type CustomFieldRequirement = 'never' | 'before_resolution' | 'always';
+
+export interface CustomFieldOption {
+	id: string;
+	value: string;
+}
+
+export interface CustomField {
+	id: string;
+	name: string;
+	description?: string;
+	field_type: string; // single_select, multi_select, text, link or numeric
+	required?: CustomFieldRequirement;
+	options?: CustomFieldOption[]; // Filled in for select fields when declaring an incident
+}
+
+export interface CustomFieldsResponse {
+	custom_fields: CustomField[];
+}
+
+export interface CustomFieldOptionsResponse extends PaginatedResponse {
+	custom_field_options: CustomFieldOption[];
+}
+
+// A new incident to declare from Obsidian
+export interface NewIncident {
+	name: string;
+	summary: string;
+	severityId: string;
+	incidentTypeId?: string; // Omit for the organisation's default type
+	customFieldValues: Record<string, string>; // Field ID to option ID, or the value for text, link and numeric fields
+}
+
+// What to do with an incident's note once it reaches a final status
+export type ArchiveAction = 'keep' | 'move' | 'delete';
+
+export interface ArchiveRule {
+	action: ArchiveAction;
+	folder: string; // Destination when action is 'move'
+}
+
+export type ArchivableStatusCategory = 'closed' | 'merged' | 'declined';
+
+// Where a custom field goes in incident note frontmatter
+export interface CustomFieldMapping {
+	fieldName: string; // Custom field name in incident.io (case-insensitive)
+	key: string; // Frontmatter key; empty = exclude the field
+}
+
+// Includes incidents whose custom field has this value, e.g. Affected team = Payments
+export interface CustomFieldFilter {
+	fieldName: string; // Custom field name in incident.io (case-insensitive)
+	value: string; // Matched case-insensitively against any selected option
+}
+
+// Values an incident must have one of (include) and must not have (exclude).
+// An empty include list allows anything.
+export interface IncludeExcludeFilter<T = string> {
+	include: T[];
+	exclude: T[];
+}
+
+// Narrows every synced incident, whatever made it the user's
+export interface IncidentFilters {
+	severities: IncludeExcludeFilter; // Severity names (case-insensitive)
+	incidentTypes: IncludeExcludeFilter; // Incident type names (case-insensitive)
+	// In active-only mode an empty include list means triage and live
+	statusCategories: IncludeExcludeFilter<IncidentStatusCategory>;
+	customFields: IncludeExcludeFilter<CustomFieldFilter>;
+}
+
+// Why an incident was synced: a lead or other role from the role filter, a
+// subscription, or a custom field filter
+export type InclusionReason = 'lead' | 'role' | 'subscribed' | 'custom_field';
+
+// A further incident.io organisation synced into the same vault. Settings
+// not listed here (templates, daily note layout, archive actions) are shared
+// with the main workspace.
+export interface WorkspaceProfile {
+	id: string; // Stable - names its API key secret and sync state
+	name: string; // Label for its incidents in the daily note and frontmatter
+	enabled: boolean;
+	apiKeyConfigured: boolean;
+	userId: string;
+	userEmail: string;
+	apiBaseUrl: string; // Empty = same as the main workspace
+	webBaseUrl: string; // Empty = same as the main workspace
+	incidentNotesFolder: string; // Empty = a subfolder of the main notes folder named after the workspace
+	roleFilter: RoleFilter;
+	includeSubscribed: boolean;
+	customFieldFilters: CustomFieldFilter[];
+	incidentFilters: IncidentFilters; // Severity and type names differ between organisations
+}
+
 // Plugin settings
+// Extra HTTP header sent with every API request, e.g. for a corporate proxy
+export interface HttpHeader {
+	name: string;
+	value: string;
+}
+
+// Which of the user's role assignments make an incident theirs
+export interface RoleFilter {
+	roleTypes: IncidentRoleType[]; // 'custom' = every custom role
+	customRoleNames: string[]; // Specific custom roles, matched by name ignoring case
+}
+
 export interface IncidentIOSyncSettings {
 	// DEPRECATED: Only used for migration to SecretStorage
 	apiKey?: string;
 	// Name of the secret in SecretStorage that contains the API key
 	apiKeyConfigured: boolean;
+	// The user to sync, chosen from a search in settings. Empty = not chosen yet
+	userId: string;
+	userEmail: string; // Matched against on-call schedule entries
+	// DEPRECATED: email or name substring, used until a user has been chosen
 	userIdentifier: string;
+	apiBaseUrl: string; // Without the /v1 or /v2 suffix
+	webBaseUrl: string; // Used for incident links
+	customHeaders: HttpHeader[];
+	maxConcurrentRequests: number;
 	sectionHeader: string;
 	autoSyncEnabled: boolean;
 	autoSyncFrequency: number;
 	showOnCall: boolean;
+	upcomingShiftCount: number; // Upcoming on-call shifts to list, 0 = none
+	onCallFrontmatter: boolean; // Write on-call fields to today's daily note frontmatter
 	showIncidents: boolean;
 	omitEmptySections: boolean;
 	// Daily notes settings
 	dailyNotesFolder: string; // Empty = auto-detect from Daily Notes / Periodic Notes plugin
 	// Incident notes settings
 	incidentNotesFolder: string;
+	incidentTemplatePath: string; // Empty = built-in layout
+	incidentNotePathPattern: string; // Relative to incidentNotesFolder, without .md
+	archiveRules: Record<ArchivableStatusCategory, ArchiveRule>;
+	customFieldMappings: CustomFieldMapping[]; // Unmapped fields go under custom_fields
 	historicalSyncDays: number; // 0 = only active incidents, >0 = sync last N days
+	roleFilter: RoleFilter;
+	includeSubscribed: boolean;
+	customFieldFilters: CustomFieldFilter[];
+	incidentFilters: IncidentFilters;
+	// Checkbox sync, posting updates and creating follow-ups. Off by default:
+	// the endpoints they use aren't in incident.io's public API reference
+	experimentalWriteBack: boolean;
+	// Send ticked and unticked follow-up and action checkboxes back to incident.io
+	syncCheckboxes: boolean;
+	// Team mode: also sync incidents where team members hold a role
+	teamModeEnabled: boolean;
+	teamMembers: IncidentIOUser[];
+	teamCatalogEntryId: string; // Catalog entry whose attributes list more members. Empty = none
+	// Multiple workspaces: the settings above are the main workspace
+	workspaceName: string; // Label for the main workspace's incidents when there are others
+	workspaces: WorkspaceProfile[];
 	updatePreviousDailyNotes: boolean;
 }
 
+// Bookkeeping persisted between syncs, stored alongside the settings in plugin data
+export interface SyncState {
+	// Fingerprint of each incident note's generated content, keyed by incident ID
+	noteHashes: Record<string, string>;
+	// Mapped custom field keys last written to each incident note, keyed by
+	// incident ID, so a removed or renamed mapping's key gets cleaned up
+	noteMappedKeys?: Record<string, string[]>;
+	// updated_at of each incident when its details were last fetched, keyed by incident ID
+	incidentUpdatedAt: Record<string, string>;
+	// The same for each additional workspace, keyed by workspace ID
+	workspaceIncidentUpdatedAt?: Record<string, Record<string, string>>;
+	// The last successful sync, used when the API can't be reached
+	lastResult?: CachedSyncResult;
+}
+
+export interface CachedSyncResult {
+	// ISO timestamp of the sync that produced the result
+	syncedAt: string;
+	result: SyncResult;
+}
+
 // Secret storage key for the API key
 export const SECRET_KEY_API = 'incident-io-api-key';
 
 export const DEFAULT_SETTINGS: IncidentIOSyncSettings = {
 	apiKeyConfigured: false,
-	userIdentifier: 'james',
+	userId: '',
+	userEmail: '',
+	userIdentifier: '',
+	apiBaseUrl: 'https://api.incident.io',
+	webBaseUrl: 'https://app.incident.io',
+	customHeaders: [],
+	maxConcurrentRequests: 5,
 	sectionHeader: '## Incidents',
 	autoSyncEnabled: true,
 	autoSyncFrequency: 300000, // 5 minutes
 	showOnCall: true,
+	upcomingShiftCount: 3,
+	onCallFrontmatter: true,
 	showIncidents: true,
 	omitEmptySections: true,
 	// Daily notes defaults
 	dailyNotesFolder: '', // Empty = auto-detect
 	// Incident notes defaults
 	incidentNotesFolder: 'Incidents',
+	incidentTemplatePath: '',
+	incidentNotePathPattern: '{{reference}}',
+	archiveRules: {
+		closed: { action: 'keep', folder: 'Incidents/Archive' },
+		merged: { action: 'keep', folder: 'Incidents/Merged' },
+		declined: { action: 'keep', folder: 'Incidents/Declined' },
+	},
+	customFieldMappings: [],
 	historicalSyncDays: 0, // 0 = only active, default to no historical
+	roleFilter: {
+		roleTypes: ['lead'],
+		customRoleNames: [],
+	},
+	includeSubscribed: false,
+	customFieldFilters: [],
+	incidentFilters: {
+		severities: { include: [], exclude: [] },
+		incidentTypes: { include: [], exclude: [] },
+		statusCategories: { include: [], exclude: [] },
+		customFields: { include: [], exclude: [] },
+	},
+	experimentalWriteBack: false,
+	syncCheckboxes: true,
+	teamModeEnabled: false,
+	teamMembers: [],
+	teamCatalogEntryId: '',
+	workspaceName: 'Main',
+	workspaces: [],
 	updatePreviousDailyNotes: false,
 };
 
@@ -256,11 +537,18 @@ export interface FullIncident {
 	incidentType?: string;
 	url: string;
 	durationMinutes?: number;
+	// The incident this one was merged into, if its status is 'merged'
+	mergedInto?: {
+		id?: string;
+		reference: string;
+		url: string;
+	};
 	roles: Array<{
 		role: string;
-		roleType: 'lead' | 'reporter' | 'custom';
+		roleType: IncidentRoleType;
 		assignee: string;
 		isUser: boolean; // true if this is the current user
+		isTeamMember?: boolean; // true if the assignee is in the team (team mode)
 	}>;
 	customFields: Array<{
 		name: string;
@@ -274,35 +562,97 @@ export interface FullIncident {
 	actions: IncidentAction[];
 	followUps: FollowUp[];
 	attachments: IncidentAttachment[];
+	// Why the incident was synced. Missing from results cached by older versions
+	inclusion?: InclusionReason[];
+	// Which workspace it came from - only set when several are synced
+	workspace?: WorkspaceLabel;
+	// Vault path of the synced incident note, set once the note has been written
+	notePath?: string;
 }
 
-// Frontmatter for incident note files
+// The parts of a FullIncident that need their own API requests
+export type IncidentDetails = Pick<FullIncident, 'updates' | 'followUps' | 'actions' | 'attachments' | 'timestamps'>;
+
+// Frontmatter for incident note files. Mapped custom fields add further keys.
 export interface IncidentNoteFrontmatter {
 	incident_id: string;
 	reference: string;
+	name: string;
 	created_at: string;
 	updated_at?: string;
 	closed_at?: string;
 	status: string;
+	status_category: string;
 	severity: string;
 	type?: string;
 	url: string;
 	duration_minutes?: number;
+	merged_into?: string;
+	lead?: string[];
+	reporter?: string[];
+	roles?: Record<string, string[]>; // Custom roles, keyed by role name
+	my_role?: string[];
+	team_roles?: string[]; // Team mode: "Name (Role)" for each team member's role
+	workspace?: string; // Set when several workspaces are synced
+	custom_fields?: Record<string, string>; // Unmapped custom fields
+	timestamps?: Record<string, string>;
+	follow_up_count: number;
+	open_follow_up_count: number;
+	action_count: number;
+	open_action_count: number;
 }
 
 // Sync result types
+export interface WorkspaceLabel {
+	id: string;
+	name: string;
+}
+
+// One of the user's on-call shifts on a schedule
+export interface OnCallShift {
+	schedule: string;
+	start: string;
+	end: string;
+	handoverFrom?: string; // Who is on call until the shift starts
+	handoverTo?: string; // Who takes over when it ends
+}
+
 export interface OnCallResult {
 	schedules: string[];
+	shifts?: OnCallShift[]; // The shifts the user is on now, one per schedule above
+	upcoming?: OnCallShift[]; // The user's next shifts, soonest first
+	// Team mode: who from the team is on call for each schedule right now
+	team?: TeamOnCall[];
+}
+
+export interface TeamOnCall {
+	schedule: string;
+	members: string[];
 }
 
 export interface IncidentResult {
-	reference: string;
+	id: string;
+	reference: string; // Not unique across workspaces - match on id and workspace
 	name: string;
 	status: string;
+	inclusion?: InclusionReason[];
+	workspace?: WorkspaceLabel;
 	// New fields for linking to incident notes
 	notePath?: string;
 }
 
+// What happened to an incident note during sync
+export type NoteWriteOutcome = 'created' | 'updated' | 'unchanged';
+
+// Summary of an incident note sync
+export interface IncidentNoteSyncSummary {
+	// Incident ID -> note path
+	notePaths: Map<string, string>;
+	created: number;
+	updated: number;
+	unchanged: number;
+}
+
 export interface SyncResult {
 	onCall: OnCallResult | null;
 	incidents: IncidentResult[];
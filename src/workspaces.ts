@@ -0,0 +1,247 @@
+import {
+	DEFAULT_SETTINGS,
+	FullIncident,
+	IncidentIOSyncSettings,
+	IncidentResult,
+	SECRET_KEY_API,
+	OnCallShift,
+	SyncResult,
+	TeamOnCall,
+	WorkspaceLabel,
+	WorkspaceProfile,
+} from './types';
+import { sanitizePathSegment, slugify } from './incident-notes';
+
+// Several incident.io organisations in one vault. The plugin settings are the
+// main workspace; each additional workspace profile has its own API key, user,
+// notes folder and filters. Every workspace is synced on its own and the
+// results are merged into one daily note section, with each incident labelled
+// by the workspace it came from.
+
+export const MAIN_WORKSPACE_ID = 'main';
+
+// Exported pure functions for testing
+
+/** SecretStorage key holding a workspace's API key */
+export function getWorkspaceSecretKey(workspaceId: string): string {
+	return workspaceId === MAIN_WORKSPACE_ID ? SECRET_KEY_API : `${SECRET_KEY_API}-${workspaceId}`;
+}
+
+/** Additional workspaces that take part in syncs */
+export function getEnabledWorkspaces(settings: IncidentIOSyncSettings): WorkspaceProfile[] {
+	return (settings.workspaces || []).filter(workspace => workspace.enabled);
+}
+
+/** Label for the main workspace's incidents, or null if it's the only workspace */
+export function getMainWorkspaceLabel(settings: IncidentIOSyncSettings): WorkspaceLabel | null {
+	if (getEnabledWorkspaces(settings).length === 0) {
+		return null;
+	}
+	return { id: MAIN_WORKSPACE_ID, name: settings.workspaceName.trim() || DEFAULT_SETTINGS.workspaceName };
+}
+
+/**
+ * Where a workspace's incident notes go. Never the main workspace's folder,
+ * so the same reference (INC-123) in two organisations can't collide.
+ */
+export function getWorkspaceNotesFolder(settings: IncidentIOSyncSettings, profile: WorkspaceProfile): string {
+	const folder = trimSlashes(profile.incidentNotesFolder);
+	const mainFolder = trimSlashes(settings.incidentNotesFolder);
+	if (folder && folder !== mainFolder) {
+		return folder;
+	}
+	const name = sanitizePathSegment(profile.name) || profile.id;
+	return mainFolder ? `${mainFolder}/${name}` : name;
+}
+
+/**
+ * The plugin settings as an additional workspace sees them: its own identity,
+ * notes folder and filters, with everything else shared. Archived notes move
+ * to a subfolder named after the workspace to keep them apart too.
+ */
+export function getWorkspaceSettings(settings: IncidentIOSyncSettings, profile: WorkspaceProfile): IncidentIOSyncSettings {
+	const name = sanitizePathSegment(profile.name) || profile.id;
+	const archiveFolder = (folder: string) => folder ? `${folder.replace(/\/+$/, '')}/${name}` : folder;
+
+	return {
+		...settings,
+		apiKeyConfigured: profile.apiKeyConfigured,
+		userId: profile.userId,
+		userEmail: profile.userEmail,
+		userIdentifier: '',
+		apiBaseUrl: profile.apiBaseUrl || settings.apiBaseUrl,
+		webBaseUrl: profile.webBaseUrl || settings.webBaseUrl,
+		incidentNotesFolder: getWorkspaceNotesFolder(settings, profile),
+		archiveRules: {
+			closed: { ...settings.archiveRules.closed, folder: archiveFolder(settings.archiveRules.closed.folder) },
+			merged: { ...settings.archiveRules.merged, folder: archiveFolder(settings.archiveRules.merged.folder) },
+			declined: { ...settings.archiveRules.declined, folder: archiveFolder(settings.archiveRules.declined.folder) },
+		},
+		roleFilter: profile.roleFilter,
+		includeSubscribed: profile.includeSubscribed,
+		customFieldFilters: profile.customFieldFilters,
+		incidentFilters: profile.incidentFilters,
+		// Team mode belongs to the main workspace
+		teamModeEnabled: false,
+		teamMembers: [],
+		teamCatalogEntryId: '',
+		workspaces: [],
+	};
+}
+
+/**
+ * The settings an incident's note was written with: its workspace's settings
+ * for incidents from an additional workspace, otherwise the main settings
+ */
+export function getSettingsForIncident(settings: IncidentIOSyncSettings, incident: FullIncident): IncidentIOSyncSettings {
+	const workspaceId = incident.workspace?.id;
+	const profile = workspaceId && workspaceId !== MAIN_WORKSPACE_ID
+		? (settings.workspaces || []).find(workspace => workspace.id === workspaceId)
+		: undefined;
+	return profile ? getWorkspaceSettings(settings, profile) : settings;
+}
+
+/**
+ * The workspace an incident note belongs to, going by the note itself: its
+ * workspace frontmatter, or else the most specific notes or archive folder
+ * it's in. Null when neither settles it, so nothing is sent to the wrong
+ * organisation.
+ */
+export function getNoteWorkspaceId(
+	settings: IncidentIOSyncSettings,
+	notePath: string,
+	frontmatter: Record<string, unknown> | undefined
+): string | null {
+	const profiles = settings.workspaces || [];
+	if (profiles.length === 0) {
+		return MAIN_WORKSPACE_ID;
+	}
+
+	// Written as the workspace's name whenever incidents are labelled
+	const name = frontmatter?.workspace;
+	if (typeof name === 'string' && name.trim()) {
+		const mainName = settings.workspaceName.trim() || DEFAULT_SETTINGS.workspaceName;
+		const matches = [{ id: MAIN_WORKSPACE_ID, name: mainName }, ...profiles]
+			.filter(workspace => workspace.name === name.trim());
+		return matches.length === 1 ? matches[0].id : null;
+	}
+
+	const workspaceSettings = [
+		{ id: MAIN_WORKSPACE_ID, settings },
+		...profiles.map(profile => ({ id: profile.id, settings: getWorkspaceSettings(settings, profile) })),
+	];
+	let best: { id: string | null; length: number } = { id: null, length: -1 };
+	for (const { id, settings: candidate } of workspaceSettings) {
+		const { closed, merged, declined } = candidate.archiveRules;
+		const archiveFolders = [closed, merged, declined]
+			.filter(rule => rule.action === 'move' && trimSlashes(rule.folder))
+			.map(rule => rule.folder);
+		for (const folder of [candidate.incidentNotesFolder, ...archiveFolders].map(trimSlashes)) {
+			if (folder.length < best.length || (folder && !notePath.startsWith(`${folder}/`))) {
+				continue;
+			}
+			// Two workspaces sharing the folder can't be told apart
+			best = { id: folder.length === best.length && best.id !== id ? null : id, length: folder.length };
+		}
+	}
+	return best.id;
+}
+
+/** A new, enabled profile with an ID derived from its name that no other workspace uses */
+export function createWorkspaceProfile(name: string, existing: WorkspaceProfile[]): WorkspaceProfile {
+	const base = slugify(name) || 'workspace';
+	const taken = new Set(existing.map(workspace => workspace.id).concat(MAIN_WORKSPACE_ID));
+	let id = base;
+	for (let suffix = 2; taken.has(id); suffix++) {
+		id = `${base}-${suffix}`;
+	}
+
+	return {
+		id,
+		name,
+		enabled: true,
+		apiKeyConfigured: false,
+		userId: '',
+		userEmail: '',
+		apiBaseUrl: '',
+		webBaseUrl: '',
+		incidentNotesFolder: '',
+		roleFilter: {
+			roleTypes: [...DEFAULT_SETTINGS.roleFilter.roleTypes],
+			customRoleNames: [],
+		},
+		includeSubscribed: false,
+		customFieldFilters: [],
+		incidentFilters: {
+			severities: { include: [], exclude: [] },
+			incidentTypes: { include: [], exclude: [] },
+			statusCategories: { include: [], exclude: [] },
+			customFields: { include: [], exclude: [] },
+		},
+	};
+}
+
+/** Mark each incident and on-call schedule in a result with the workspace it came from */
+export function labelSyncResult(result: SyncResult, label: WorkspaceLabel): SyncResult {
+	const labelShift = (shift: OnCallShift) => ({ ...shift, schedule: `${shift.schedule} (${label.name})` });
+	const onCall = result.onCall && {
+		schedules: result.onCall.schedules.map(schedule => `${schedule} (${label.name})`),
+		...(result.onCall.shifts ? { shifts: result.onCall.shifts.map(labelShift) } : {}),
+		...(result.onCall.upcoming ? { upcoming: result.onCall.upcoming.map(labelShift) } : {}),
+		...(result.onCall.team ? {
+			team: result.onCall.team.map(entry => ({ ...entry, schedule: `${entry.schedule} (${label.name})` })),
+		} : {}),
+	};
+
+	return {
+		onCall,
+		incidents: result.incidents.map(incident => ({ ...incident, workspace: label })),
+		fullIncidents: result.fullIncidents.map(incident => ({ ...incident, workspace: label })),
+	};
+}
+
+/** Combine the results from each workspace into one */
+export function mergeSyncResults(results: SyncResult[]): SyncResult {
+	const schedules: string[] = [];
+	const shifts: OnCallShift[] = [];
+	const upcoming: OnCallShift[] = [];
+	const team: TeamOnCall[] = [];
+	const incidents: IncidentResult[] = [];
+	const fullIncidents: FullIncident[] = [];
+	let hasTeam = false;
+	let hasShifts = false;
+	for (const result of results) {
+		schedules.push(...(result.onCall?.schedules || []));
+		if (result.onCall?.shifts || result.onCall?.upcoming) {
+			hasShifts = true;
+			shifts.push(...(result.onCall.shifts || []));
+			upcoming.push(...(result.onCall.upcoming || []));
+		}
+		if (result.onCall?.team) {
+			hasTeam = true;
+			team.push(...result.onCall.team);
+		}
+		incidents.push(...result.incidents);
+		fullIncidents.push(...result.fullIncidents);
+	}
+
+	return {
+		onCall: schedules.length > 0 || upcoming.length > 0 || team.length > 0
+			? {
+				schedules,
+				...(hasShifts ? {
+					shifts,
+					// Soonest first across workspaces
+					upcoming: upcoming.sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime()),
+				} : {}),
+				...(hasTeam ? { team } : {}),
+			}
+			: null,
+		incidents,
+		fullIncidents,
+	};
+}
+
+function trimSlashes(path: string): string {
+	return path.trim().replace(/^\/+|\/+$/g, '');
+}